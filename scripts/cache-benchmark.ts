@@ -0,0 +1,124 @@
+/**
+ * 缓存性能对比：基于索引的 LRU 缓存与旧版（每次写入都扫描并解析全部缓存文件）
+ * 用法: npm run bench:cache -- [条目数]，默认 1000
+ */
+import { existsSync, readFileSync, writeFileSync, mkdirSync, mkdtempSync, readdirSync, statSync, unlinkSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { createHash } from 'crypto';
+import { performance } from 'perf_hooks';
+import { CacheManager } from '../src/utils/cache.js';
+import { getConfig } from '../src/config/index.js';
+
+interface CacheEntry<T> {
+  data: T;
+  timestamp: number;
+  ttl: number;
+}
+
+/**
+ * 旧版缓存的 set/get：每次 set 后扫描目录并解析所有文件，按修改时间淘汰
+ */
+class LegacyCacheManager {
+  constructor(private cacheDir: string) {
+    mkdirSync(cacheDir, { recursive: true });
+  }
+
+  private getCacheFilePath(key: string): string {
+    return join(this.cacheDir, `${createHash('md5').update(key).digest('hex')}.json`);
+  }
+
+  set<T>(key: string, data: T, ttl: number): void {
+    const cacheEntry: CacheEntry<T> = { data, timestamp: Date.now(), ttl };
+    writeFileSync(this.getCacheFilePath(key), JSON.stringify(cacheEntry));
+    this.cleanup();
+  }
+
+  get<T>(key: string): T | null {
+    const filePath = this.getCacheFilePath(key);
+    if (!existsSync(filePath)) {
+      return null;
+    }
+    const cacheEntry: CacheEntry<T> = JSON.parse(readFileSync(filePath, 'utf-8'));
+    return Date.now() - cacheEntry.timestamp > cacheEntry.ttl ? null : cacheEntry.data;
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+    for (const file of readdirSync(this.cacheDir)) {
+      const filePath = join(this.cacheDir, file);
+      const cacheEntry: CacheEntry<any> = JSON.parse(readFileSync(filePath, 'utf-8'));
+      if (now - cacheEntry.timestamp > cacheEntry.ttl) {
+        unlinkSync(filePath);
+      }
+    }
+    const remainingFiles = readdirSync(this.cacheDir);
+    const { maxEntries } = getConfig().cache;
+    if (remainingFiles.length > maxEntries) {
+      const fileStats = remainingFiles.map(file => ({ file, mtime: statSync(join(this.cacheDir, file)).mtime }));
+      fileStats.sort((a, b) => a.mtime.getTime() - b.mtime.getTime());
+      for (const { file } of fileStats.slice(0, remainingFiles.length - maxEntries)) {
+        unlinkSync(join(this.cacheDir, file));
+      }
+    }
+  }
+}
+
+/**
+ * 模拟的缓存数据，大小与一场比赛的提交记录相近
+ */
+function sampleData(i: number): object {
+  return {
+    id: i,
+    submissions: Array.from({ length: 20 }, (_, j) => ({
+      id: i * 100 + j,
+      problem: { contestId: 2000, index: String.fromCharCode(65 + (j % 6)), name: `Problem ${j}` },
+      verdict: j % 3 === 0 ? 'OK' : 'WRONG_ANSWER',
+      timeConsumedMillis: 15 * j,
+      memoryConsumedBytes: 1024 * j
+    }))
+  };
+}
+
+/**
+ * 运行并计时，返回毫秒数
+ */
+function measure(task: () => void): number {
+  const start = performance.now();
+  task();
+  return performance.now() - start;
+}
+
+/**
+ * 写入 count 个条目，再按顺序全部读取一遍
+ */
+function runBenchmark(name: string, cache: { set(key: string, data: any, ttl: number): void; get(key: string): any }, count: number) {
+  const setMs = measure(() => {
+    for (let i = 0; i < count; i++) {
+      cache.set(`key_${i}`, sampleData(i), 3600 * 1000);
+    }
+  });
+  let hits = 0;
+  const getMs = measure(() => {
+    for (let i = 0; i < count; i++) {
+      if (cache.get(`key_${i}`) !== null) {
+        hits++;
+      }
+    }
+  });
+  console.log(
+    name.padEnd(12) +
+    `set ${setMs.toFixed(0).padStart(8)}ms (${(setMs / count).toFixed(3)}ms/次)  ` +
+    `get ${getMs.toFixed(0).padStart(8)}ms (${(getMs / count).toFixed(3)}ms/次)  命中 ${hits}/${count}`
+  );
+}
+
+const count = parseInt(process.argv[2] || '1000');
+const root = mkdtempSync(join(tmpdir(), 'cf-cache-bench-'));
+try {
+  console.log(`条目数: ${count}，cache.maxEntries: ${getConfig().cache.maxEntries}，cache.maxSize: ${getConfig().cache.maxSize} 字节`);
+  runBenchmark('旧版', new LegacyCacheManager(join(root, 'legacy')), count);
+  runBenchmark('索引LRU', new CacheManager(join(root, 'lru')), count);
+} finally {
+  rmSync(root, { recursive: true, force: true });
+}
@@ -1,9 +1,11 @@
-import { httpClient } from '../utils/http.js';
-import { cacheManager } from '../utils/cache.js';
+import { httpClient, OFFLINE_ERROR_CODE } from '../utils/http.js';
+import { cacheManager, getCachePolicyTtl } from '../utils/cache.js';
+import { classifyError } from '../utils/retry.js';
+import { getConfig } from '../config/index.js';
 import * as cheerio from 'cheerio';
 import TurndownService from 'turndown';
 import axios from 'axios';
-import puppeteer from 'puppeteer';
+import puppeteer, { Browser } from 'puppeteer';
 import {
   Contest,
   Problem,
@@ -17,8 +19,37 @@ import {
   LoginCredentials,
   LoginResult,
   SubmitCodeParams,
-  SubmitResult
+  SubmitResult,
+  RatingChange,
+  BlogEntry,
+  Comment,
+  RecentAction,
+  SubmissionFilter,
+  ContestSubmissionSearch,
+  Hack,
+  HackFilter,
+  ContestRef,
+  ProblemRef,
+  StatementLanguage
 } from '../types/index.js';
+import { filterSubmissions, filterHacks } from '../utils/filter.js';
+import { getContestPath, getProblemPath, formatProblemRef } from '../utils/problem.js';
+
+// 按题目、结果或语言筛选提交记录时每页获取的数量，以及最多查找的提交数
+const CONTEST_STATUS_PAGE_SIZE = 1000;
+const CONTEST_STATUS_MAX_SCAN = 20000;
+
+/**
+ * 缓存的时间，如 14 min、3 h、2 d
+ */
+function formatCacheAge(ageMs: number): string {
+  const minutes = Math.floor(ageMs / 60000);
+  if (minutes < 60) {
+    return minutes < 1 ? '<1 min' : `${minutes} min`;
+  }
+  const hours = Math.floor(minutes / 60);
+  return hours < 48 ? `${hours} h` : `${Math.floor(hours / 24)} d`;
+}
 
 /**
  * Codeforces API 服务类
@@ -30,6 +61,36 @@ export class CodeforcesAPI {
   clearCookies(): void {
     httpClient.clearCookies();
   }
+
+  /**
+   * 拼接网页地址，所有网页请求都经过配置的 api.siteUrl
+   * @param pathname 以 / 开头的路径
+   */
+  getSiteUrl(pathname: string = '/'): string {
+    const siteUrl = getConfig().api.siteUrl.replace(/\/+$/, '');
+    return `${siteUrl}${pathname}`;
+  }
+
+  /**
+   * 题目页面地址，支持普通比赛、训练赛和小组比赛
+   */
+  getProblemUrl(problem: ProblemRef): string {
+    return this.getSiteUrl(getProblemPath(problem));
+  }
+
+  /**
+   * 提交记录页面地址
+   */
+  getSubmissionUrl(contest: ContestRef, submissionId: number): string {
+    return this.getSiteUrl(`${getContestPath(contest)}/submission/${submissionId}`);
+  }
+
+  /**
+   * 博客文章页面地址，指定评论时定位到该评论
+   */
+  getBlogUrl(blogEntryId: number, commentId?: number): string {
+    return this.getSiteUrl(`/blog/entry/${blogEntryId}${commentId ? `#comment-${commentId}` : ''}`);
+  }
   // 生成随机的ftaa字符串
   private generateFtaa(): string {
     const chars = 'abcdefghijklmnopqrstuvwxyz0123456789';
@@ -43,6 +104,59 @@ export class CodeforcesAPI {
   // 存储登录时生成的ftaa和bfaa
   private ftaa: string = '';
   private bfaa: string = 'f1b3f18c715565b589b7823cda7448ce';
+
+  // 抓取题面共用的浏览器，仅在 withBrowserSession 期间保持打开
+  private browser: Browser | null = null;
+  private browserSessionDepth: number = 0;
+
+  /**
+   * 获取抓取题面用的浏览器，未启动时启动
+   */
+  private async getBrowser(): Promise<Browser> {
+    httpClient.assertOnline(this.getSiteUrl());
+    if (!this.browser) {
+      this.browser = await puppeteer.launch({
+        headless: true,
+        args: [
+          '--no-sandbox',
+          '--disable-setuid-sandbox',
+          '--disable-dev-shm-usage',
+          '--disable-accelerated-2d-canvas',
+          '--no-first-run',
+          '--no-zygote',
+          '--disable-gpu'
+        ]
+      });
+    }
+    return this.browser;
+  }
+
+  /**
+   * 关闭抓取题面用的浏览器
+   */
+  private async closeBrowser(): Promise<void> {
+    if (this.browser) {
+      const browser = this.browser;
+      this.browser = null;
+      await browser.close().catch(() => {});
+    }
+  }
+
+  /**
+   * 在同一个浏览器会话中执行多次题面抓取，避免每道题都启动一次浏览器
+   * @param task 会话中要执行的操作
+   */
+  async withBrowserSession<T>(task: () => Promise<T>): Promise<T> {
+    this.browserSessionDepth++;
+    try {
+      return await task();
+    } finally {
+      this.browserSessionDepth--;
+      if (this.browserSessionDepth === 0) {
+        await this.closeBrowser();
+      }
+    }
+  }
   
   /**
    * 检查是否已登录
@@ -53,7 +167,7 @@ export class CodeforcesAPI {
       // 访问个人主页，检查是否已登录
       const response = await httpClient.request({
         method: 'GET',
-        url: 'https://codeforces.com/'
+        url: this.getSiteUrl('/')
       });
       
       // 检查是否包含登录后才会出现的元素
@@ -141,6 +255,8 @@ export class CodeforcesAPI {
    */
   async login(credentials: LoginCredentials): Promise<LoginResult> {
     try {
+      httpClient.assertOnline(this.getSiteUrl('/enter'));
+
       // 清除之前的Cookie
       httpClient.clearCookies();
       
@@ -167,7 +283,7 @@ export class CodeforcesAPI {
         
         // 访问登录页面
         console.log('正在访问登录页面...');
-        const response = await page.goto('https://codeforces.com/enter', {
+        const response = await page.goto(this.getSiteUrl('/enter'), {
           waitUntil: 'networkidle2',
           timeout: 30000
         });
@@ -282,14 +398,58 @@ export class CodeforcesAPI {
       };
     }
   }
+
+  /**
+   * 读取缓存，API 方法的缓存策略（cache.policies）为 never 时不读取
+   * @param method API 方法名，如 contest.standings
+   */
+  private getCached<T>(method: string, key: string): T | null {
+    return getCachePolicyTtl(method) > 0 ? cacheManager.get<T>(key) : null;
+  }
+
+  /**
+   * 按 API 方法的缓存策略（cache.policies）写入缓存
+   * @param method API 方法名，如 contest.standings
+   * @param maxTtl 有效期上限（毫秒），用于结果很快会变化的情况
+   */
+  private setCached<T>(method: string, key: string, data: T, maxTtl: number = Infinity): void {
+    const ttl = Math.min(getCachePolicyTtl(method), maxTtl);
+    if (ttl > 0) {
+      cacheManager.set(key, data, ttl);
+    }
+  }
+
+  /**
+   * 请求失败时改用缓存（包括已过期的缓存），并提示缓存的时间
+   * 只用于网络错误、服务器错误、调用频率超限和离线模式，用户不存在等错误直接抛出
+   * @param key 缓存键
+   * @param error 请求的错误
+   * @param anyError 任何错误都改用缓存，用于无法区分失败原因的网页抓取
+   */
+  private useStaleCache<T>(key: string, error: any, anyError: boolean = false): T {
+    const offline = error?.code === OFFLINE_ERROR_CODE;
+    if (!offline && !anyError && classifyError(error) === 'permanent') {
+      throw error;
+    }
+
+    const entry = cacheManager.getEntry<T>(key, { allowStale: true });
+    if (!entry) {
+      throw offline ? Object.assign(new Error('离线模式下没有可用的缓存数据'), { code: OFFLINE_ERROR_CODE }) : error;
+    }
+    console.warn(`⚠️  ${offline ? '离线模式' : '无法连接 Codeforces'}，使用缓存数据 (cached, ${formatCacheAge(entry.age)} old)`);
+    return entry.data;
+  }
+
   /**
    * 获取竞赛列表
+   * @param gym 是否获取训练赛
+   * @param useCache 是否使用缓存，等待比赛开始时需要获取最新的阶段
    */
-  async getContests(gym: boolean = false): Promise<Contest[]> {
+  async getContests(gym: boolean = false, useCache: boolean = true): Promise<Contest[]> {
     const cacheKey = `contests_${gym}`;
     
     // 尝试从缓存获取
-    const cached = cacheManager.get<Contest[]>(cacheKey);
+    const cached = useCache ? this.getCached<Contest[]>('contest.list', cacheKey) : null;
     if (cached) {
       // 从缓存获取竞赛列表
       return cached;
@@ -300,14 +460,14 @@ export class CodeforcesAPI {
       
       if (response.status === 'OK' && response.result) {
         // 缓存结果
-        cacheManager.set(cacheKey, response.result);
+        this.setCached('contest.list', cacheKey, response.result);
         return response.result;
       } else {
         throw new Error(response.comment || 'Failed to fetch contests');
       }
     } catch (error: any) {
       // 获取竞赛列表出错
-      throw error;
+      return this.useStaleCache(cacheKey, error);
     }
   }
 
@@ -319,7 +479,7 @@ export class CodeforcesAPI {
     const cacheKey = `problems_${tagsParam || 'all'}`;
     
     // 尝试从缓存获取
-    const cached = cacheManager.get<{ problems: Problem[]; problemStatistics: any[] }>(cacheKey);
+    const cached = this.getCached<{ problems: Problem[]; problemStatistics: any[] }>('problemset.problems', cacheKey);
     if (cached) {
       // 从缓存获取题目列表
       return cached;
@@ -335,30 +495,32 @@ export class CodeforcesAPI {
       
       if (response.status === 'OK' && response.result) {
         // 缓存结果
-        cacheManager.set(cacheKey, response.result);
+        this.setCached('problemset.problems', cacheKey, response.result);
         return response.result;
       } else {
         throw new Error(response.comment || 'Failed to fetch problems');
       }
     } catch (error: any) {
       // 获取题目列表出错
-      throw error;
+      return this.useStaleCache(cacheKey, error);
     }
   }
 
   /**
    * 获取竞赛排名
+   * @param useCache 是否使用缓存，等待比赛开始时需要获取最新的阶段
    */
   async getContestStandings(
     contestId: number,
     from?: number,
     count?: number,
-    handles?: string[]
+    handles?: string[],
+    useCache: boolean = true
   ): Promise<{ contest: Contest; problems: Problem[]; rows: RanklistRow[] }> {
     const cacheKey = `standings_${contestId}_${from || 1}_${count || 0}_${handles?.join(',') || 'all'}`;
     
     // 尝试从缓存获取
-    const cached = cacheManager.get<{ contest: Contest; problems: Problem[]; rows: RanklistRow[] }>(cacheKey);
+    const cached = useCache ? this.getCached<{ contest: Contest; problems: Problem[]; rows: RanklistRow[] }>('contest.standings', cacheKey) : null;
     if (cached) {
       // 从缓存获取排名
       return cached;
@@ -373,15 +535,15 @@ export class CodeforcesAPI {
       const response = await httpClient.get<{ contest: Contest; problems: Problem[]; rows: RanklistRow[] }>('/contest.standings', params);
       
       if (response.status === 'OK' && response.result) {
-        // 缓存结果（较短的缓存时间，因为排名可能变化）
-        cacheManager.set(cacheKey, response.result, 60 * 1000); // 1分钟
+        // 缓存结果（排名可能变化，默认只缓存1分钟）
+        this.setCached('contest.standings', cacheKey, response.result);
         return response.result;
       } else {
         throw new Error(response.comment || 'Failed to fetch contest standings');
       }
     } catch (error: any) {
       // 获取竞赛排名出错
-      throw error;
+      return this.useStaleCache(cacheKey, error);
     }
   }
 
@@ -400,6 +562,8 @@ export class CodeforcesAPI {
    */
   async submitCodeWithPuppeteer(params: SubmitCodeParams): Promise<SubmitResult> {
     try {
+      httpClient.assertOnline(this.getSiteUrl('/submit'));
+
       // 检查是否已登录
       if (!httpClient.getCookies().length) {
         return {
@@ -428,25 +592,19 @@ export class CodeforcesAPI {
         await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/139.0.0.0 Safari/537.36');
         
         // 设置cookies
+        const cookieDomain = new URL(this.getSiteUrl()).hostname;
         const cookies = httpClient.getCookies().map(cookie => {
           const [name, value] = cookie.split('=');
-          return { name, value, domain: 'codeforces.com', path: '/' };
+          return { name, value, domain: cookieDomain, path: '/' };
         });
         
         await page.setCookie(...cookies);
         
-        // 构建提交URL
-        let submitUrl = '';
-        if (params.groupId) {
-          // 小组比赛
-          submitUrl = `/group/${params.groupId}/contest/${params.contestId}/submit`;
-        } else {
-          // 普通比赛
-          submitUrl = `/contest/${params.contestId}/submit`;
-        }
+        // 构建提交URL（普通比赛、训练赛或小组比赛）
+        const submitUrl = `${getContestPath(params)}/submit`;
         
         // 访问提交页面
-        await page.goto(`https://codeforces.com${submitUrl}`, {
+        await page.goto(this.getSiteUrl(submitUrl), {
           waitUntil: 'networkidle2',
           timeout: 60000 // 增加超时时间到60秒
         });
@@ -742,7 +900,7 @@ export class CodeforcesAPI {
         }
         
         // 如果跳转到首页，可能是登录状态已过期
-        if (currentUrl === 'https://codeforces.com/' || currentUrl === 'https://codeforces.com') {
+        if (currentUrl.replace(/\/+$/, '') === this.getSiteUrl('')) {
           // 提交后跳转到首页，可能需要重新登录
           // 尝试查看页面内容，检查是否有登录按钮
           const needLogin = await page.evaluate(() => {
@@ -842,7 +1000,7 @@ export class CodeforcesAPI {
     const cacheKey = `users_${handlesParam}`;
     
     // 尝试从缓存获取
-    const cached = cacheManager.get<User[]>(cacheKey);
+    const cached = this.getCached<User[]>('user.info', cacheKey);
     if (cached) {
       // 从缓存获取用户信息
       return cached;
@@ -853,14 +1011,14 @@ export class CodeforcesAPI {
       
       if (response.status === 'OK' && response.result) {
         // 缓存结果
-        cacheManager.set(cacheKey, response.result);
+        this.setCached('user.info', cacheKey, response.result);
         return response.result;
       } else {
         throw new Error(response.comment || 'Failed to fetch user info');
       }
     } catch (error: any) {
       // 获取用户信息出错
-      throw error;
+      return this.useStaleCache(cacheKey, error);
     }
   }
 
@@ -881,7 +1039,7 @@ export class CodeforcesAPI {
     
     // 只有当useCache为true时才尝试从缓存获取
     if (useCache) {
-      const cached = cacheManager.get<Submission[]>(cacheKey);
+      const cached = this.getCached<Submission[]>('user.status', cacheKey);
       if (cached) {
         // 从缓存获取提交记录
         return cached;
@@ -898,7 +1056,7 @@ export class CodeforcesAPI {
       if (response.status === 'OK' && response.result) {
         // 只有当useCache为true时才缓存结果
         if (useCache) {
-          cacheManager.set(cacheKey, response.result, 120 * 1000); // 2分钟
+          this.setCached('user.status', cacheKey, response.result);
         }
         return response.result;
       } else {
@@ -906,7 +1064,353 @@ export class CodeforcesAPI {
       }
     } catch (error: any) {
       // 获取用户提交记录出错
-      throw error;
+      return this.useStaleCache(cacheKey, error);
+    }
+  }
+
+  /**
+   * 获取竞赛的积分变化，积分未更新时返回空数组
+   */
+  async getContestRatingChanges(contestId: number): Promise<RatingChange[]> {
+    const cacheKey = `rating_changes_${contestId}`;
+    
+    // 尝试从缓存获取
+    const cached = this.getCached<RatingChange[]>('contest.ratingChanges', cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const response = await httpClient.get<RatingChange[]>('/contest.ratingChanges', { contestId });
+      
+      if (response.status === 'OK' && response.result) {
+        // 积分更新后不再变化，未更新时只短暂缓存
+        this.setCached('contest.ratingChanges', cacheKey, response.result, response.result.length > 0 ? Infinity : 60 * 1000);
+        return response.result;
+      } else {
+        throw new Error(response.comment || 'Failed to fetch rating changes');
+      }
+    } catch (error: any) {
+      // 获取积分变化出错
+      return this.useStaleCache(cacheKey, error);
+    }
+  }
+
+  /**
+   * 获取用户参加过的所有计分比赛的积分变化
+   */
+  async getUserRating(handle: string): Promise<RatingChange[]> {
+    const cacheKey = `user_rating_${handle}`;
+    
+    // 尝试从缓存获取
+    const cached = this.getCached<RatingChange[]>('user.rating', cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const response = await httpClient.get<RatingChange[]>('/user.rating', { handle });
+      
+      if (response.status === 'OK' && response.result) {
+        // 缓存结果
+        this.setCached('user.rating', cacheKey, response.result);
+        return response.result;
+      } else {
+        throw new Error(response.comment || 'Failed to fetch user rating');
+      }
+    } catch (error: any) {
+      // 获取积分记录出错
+      return this.useStaleCache(cacheKey, error);
+    }
+  }
+
+  /**
+   * 获取授权用户（API key 的所有者）的好友，需要先设置 API key
+   * @param onlyOnline 只返回在线的好友
+   */
+  async getUserFriends(onlyOnline: boolean = false): Promise<string[]> {
+    const { apiKey, apiSecret } = getConfig().api;
+    if (!apiKey || !apiSecret) {
+      throw new Error('获取好友列表需要 API key，请先使用 cf auth apikey set 设置');
+    }
+
+    // 不同的 API key 属于不同用户
+    const cacheKey = `user_friends_${apiKey}_${onlyOnline}`;
+
+    // 尝试从缓存获取
+    const cached = this.getCached<string[]>('user.friends', cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const response = await httpClient.get<string[]>('/user.friends', { onlyOnline });
+
+      if (response.status === 'OK' && response.result) {
+        // 在线状态变化较快，最多缓存1分钟
+        this.setCached('user.friends', cacheKey, response.result, onlyOnline ? 60 * 1000 : Infinity);
+        return response.result;
+      } else {
+        throw new Error(response.comment || 'Failed to fetch friends');
+      }
+    } catch (error: any) {
+      // 获取好友列表出错
+      return this.useStaleCache(cacheKey, error);
+    }
+  }
+
+  /**
+   * 好友和自己（配置中登录的用户）的用户名，用于 --friends 筛选
+   */
+  async getFriendHandles(): Promise<string[]> {
+    const handles = await this.getUserFriends();
+    const self = getConfig().handle;
+    return self && !handles.some(handle => handle.toLowerCase() === self.toLowerCase())
+      ? [self, ...handles]
+      : handles;
+  }
+
+  /**
+   * 获取所有计分用户（数据量很大，默认缓存1小时）
+   * @param activeOnly 只包括最近一个月参加过计分比赛的用户
+   * @param includeRetired 包括很久没有上线的用户，activeOnly 为 false 时才有意义
+   */
+  async getRatedList(activeOnly: boolean = true, includeRetired: boolean = false): Promise<User[]> {
+    const cacheKey = `rated_list_${activeOnly}_${includeRetired}`;
+
+    // 尝试从缓存获取
+    const cached = this.getCached<User[]>('user.ratedList', cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const response = await httpClient.get<User[]>('/user.ratedList', { activeOnly, includeRetired });
+
+      if (response.status === 'OK' && response.result) {
+        this.setCached('user.ratedList', cacheKey, response.result);
+        return response.result;
+      } else {
+        throw new Error(response.comment || 'Failed to fetch rated list');
+      }
+    } catch (error: any) {
+      // 获取计分用户列表出错
+      return this.useStaleCache(cacheKey, error);
+    }
+  }
+
+  /**
+   * 获取博客文章（包括正文）
+   */
+  async getBlogEntry(blogEntryId: number): Promise<BlogEntry> {
+    const cacheKey = `blog_entry_${blogEntryId}`;
+
+    // 尝试从缓存获取
+    const cached = this.getCached<BlogEntry>('blogEntry.view', cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const response = await httpClient.get<BlogEntry>('/blogEntry.view', { blogEntryId });
+
+      if (response.status === 'OK' && response.result) {
+        this.setCached('blogEntry.view', cacheKey, response.result);
+        return response.result;
+      } else {
+        throw new Error(response.comment || 'Failed to fetch blog entry');
+      }
+    } catch (error: any) {
+      // 获取博客文章出错
+      return this.useStaleCache(cacheKey, error);
+    }
+  }
+
+  /**
+   * 获取博客文章的评论
+   */
+  async getBlogComments(blogEntryId: number): Promise<Comment[]> {
+    const cacheKey = `blog_comments_${blogEntryId}`;
+
+    // 尝试从缓存获取
+    const cached = this.getCached<Comment[]>('blogEntry.comments', cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const response = await httpClient.get<Comment[]>('/blogEntry.comments', { blogEntryId });
+
+      if (response.status === 'OK' && response.result) {
+        // 评论不断增加，只短暂缓存
+        this.setCached('blogEntry.comments', cacheKey, response.result);
+        return response.result;
+      } else {
+        throw new Error(response.comment || 'Failed to fetch blog comments');
+      }
+    } catch (error: any) {
+      // 获取评论出错
+      return this.useStaleCache(cacheKey, error);
+    }
+  }
+
+  /**
+   * 获取用户的博客文章列表（不包括正文）
+   */
+  async getUserBlogEntries(handle: string): Promise<BlogEntry[]> {
+    const cacheKey = `user_blog_entries_${handle}`;
+
+    // 尝试从缓存获取
+    const cached = this.getCached<BlogEntry[]>('user.blogEntries', cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const response = await httpClient.get<BlogEntry[]>('/user.blogEntries', { handle });
+
+      if (response.status === 'OK' && response.result) {
+        this.setCached('user.blogEntries', cacheKey, response.result);
+        return response.result;
+      } else {
+        throw new Error(response.comment || 'Failed to fetch user blog entries');
+      }
+    } catch (error: any) {
+      // 获取用户博客列表出错
+      return this.useStaleCache(cacheKey, error);
+    }
+  }
+
+  /**
+   * 获取最近的动态（新博客和新评论），最新的在前
+   * @param maxCount 返回数量，最多100
+   */
+  async getRecentActions(maxCount: number = 100): Promise<RecentAction[]> {
+    const cacheKey = `recent_actions_${maxCount}`;
+
+    // 尝试从缓存获取
+    const cached = this.getCached<RecentAction[]>('recentActions', cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const response = await httpClient.get<RecentAction[]>('/recentActions', { maxCount });
+
+      if (response.status === 'OK' && response.result) {
+        this.setCached('recentActions', cacheKey, response.result);
+        return response.result;
+      } else {
+        throw new Error(response.comment || 'Failed to fetch recent actions');
+      }
+    } catch (error: any) {
+      // 获取最近动态出错
+      return this.useStaleCache(cacheKey, error);
+    }
+  }
+
+  /**
+   * 获取竞赛的提交记录（最新的在前）
+   * 用户筛选由 API 完成，题目、判题结果和语言在本地筛选
+   * @param contestId 竞赛ID
+   * @param filter 筛选条件
+   * @param from 起始位置（在本地筛选之前）
+   * @param count 返回数量（在本地筛选之前）
+   */
+  async getContestStatus(
+    contestId: number,
+    filter: SubmissionFilter = {},
+    from?: number,
+    count?: number
+  ): Promise<Submission[]> {
+    const cacheKey = `contest_status_${contestId}_${filter.handle || 'all'}_${from || 1}_${count || 0}`;
+
+    // 尝试从缓存获取
+    const cached = this.getCached<Submission[]>('contest.status', cacheKey);
+    if (cached) {
+      return filterSubmissions(cached, filter);
+    }
+
+    try {
+      const params: any = { contestId };
+      if (filter.handle) params.handle = filter.handle;
+      if (from !== undefined) params.from = from;
+      if (count !== undefined) params.count = count;
+
+      const response = await httpClient.get<Submission[]>('/contest.status', params);
+
+      if (response.status === 'OK' && response.result) {
+        // 比赛进行中提交不断增加，只短暂缓存
+        this.setCached('contest.status', cacheKey, response.result);
+        return filterSubmissions(response.result, filter);
+      } else {
+        throw new Error(response.comment || 'Failed to fetch contest status');
+      }
+    } catch (error: any) {
+      // 获取竞赛提交记录出错
+      return filterSubmissions(this.useStaleCache<Submission[]>(cacheKey, error), filter);
+    }
+  }
+
+  /**
+   * 分页查找竞赛中符合条件的最新提交，找到 limit 条即停止，不下载整个比赛的提交记录
+   * 只按用户筛选时由 API 完成，直接获取 limit 条；其余条件在本地筛选，逐页查找，最多查找 CONTEST_STATUS_MAX_SCAN 条
+   * @param contestId 竞赛ID
+   * @param filter 筛选条件
+   * @param limit 需要的数量
+   */
+  async findContestSubmissions(contestId: number, filter: SubmissionFilter, limit: number): Promise<ContestSubmissionSearch> {
+    const localFilter = !!(filter.handles || filter.problemIndex || filter.verdict || filter.language);
+    // 多取一条用于判断是否还有更多
+    const pageSize = localFilter ? CONTEST_STATUS_PAGE_SIZE : limit + 1;
+    const matched = new Map<number, Submission>();
+    let scanned = 0;
+
+    for (;;) {
+      const page = await this.getContestStatus(contestId, { handle: filter.handle }, scanned + 1, pageSize);
+      scanned += page.length;
+      // 比赛进行中有新提交时，后一页开头可能与前一页重复
+      for (const submission of filterSubmissions(page, filter)) {
+        matched.set(submission.id, submission);
+      }
+
+      const finished = matched.size > limit || page.length < pageSize;
+      if (finished || scanned >= CONTEST_STATUS_MAX_SCAN) {
+        const submissions = [...matched.values()];
+        return {
+          submissions: submissions.slice(0, limit),
+          hasMore: submissions.length > limit,
+          scanned,
+          scanLimitReached: !finished
+        };
+      }
+    }
+  }
+
+  /**
+   * 获取竞赛的Hack记录，按题目、结果和用户在本地筛选
+   */
+  async getContestHacks(contestId: number, filter: HackFilter = {}): Promise<Hack[]> {
+    const cacheKey = `contest_hacks_${contestId}`;
+
+    // 尝试从缓存获取
+    const cached = this.getCached<Hack[]>('contest.hacks', cacheKey);
+    if (cached) {
+      return filterHacks(cached, filter);
+    }
+
+    try {
+      const response = await httpClient.get<Hack[]>('/contest.hacks', { contestId });
+
+      if (response.status === 'OK' && response.result) {
+        this.setCached('contest.hacks', cacheKey, response.result);
+        return filterHacks(response.result, filter);
+      } else {
+        throw new Error(response.comment || 'Failed to fetch contest hacks');
+      }
+    } catch (error: any) {
+      // 获取Hack记录出错
+      return filterHacks(this.useStaleCache<Hack[]>(cacheKey, error), filter);
     }
   }
 
@@ -925,16 +1429,18 @@ export class CodeforcesAPI {
 
   /**
    * 获取题目题面
-   * @param contestId 竞赛ID
-   * @param index 题目编号
+   * @param problem 题目，可以是普通比赛、训练赛或小组比赛中的题目
    * @param useCache 是否使用缓存，默认为true。当为false时跳过缓存读取，直接从网络获取最新内容
+   * @param language 题面语言，默认英文；没有对应语言版本的题目由网站返回另一种语言
    */
-  async getProblemStatement(contestId: number, index: string, useCache: boolean = true): Promise<ProblemStatement> {
-    const cacheKey = `statement_${contestId}_${index}`;
+  async getProblemStatement(problem: ProblemRef, useCache: boolean = true, language: StatementLanguage = 'en'): Promise<ProblemStatement> {
+    const { contestId, index } = problem;
+    // 训练赛和小组比赛的ID与普通比赛不重复，缓存键只需比赛ID（或题库名称）、题目编号和语言
+    const cacheKey = `statement_${problem.problemsetName || contestId}_${index}_${language}`;
     
     // 只有当useCache为true时才尝试从缓存获取
     if (useCache) {
-      const cached = cacheManager.get<ProblemStatement>(cacheKey);
+      const cached = this.getCached<ProblemStatement>('problem.statement', cacheKey);
       if (cached) {
         // 从缓存获取题目描述
         return cached;
@@ -944,23 +1450,14 @@ export class CodeforcesAPI {
     // 直接尝试网页抓取获取完整题面
     try {
       // 使用浏览器抓取
-      const url = `https://codeforces.com/contest/${contestId}/problem/${index}`;
+      const url = `${this.getProblemUrl(problem)}?locale=${language}`;
+      httpClient.assertOnline(url);
       
-      let browser;
+      let page;
       try {
-        browser = await puppeteer.launch({
-          headless: true,
-          args: [
-            '--no-sandbox',
-            '--disable-setuid-sandbox',
-            '--disable-dev-shm-usage',
-            '--disable-accelerated-2d-canvas',
-            '--no-first-run',
-            '--no-zygote',
-            '--disable-gpu'
-          ]
-        });
-        const page = await browser.newPage();
+        // 在浏览器会话中复用已启动的浏览器
+        const browser = await this.getBrowser();
+        page = await browser.newPage();
         // 设置用户代理和视口
         await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/139.0.0.0 Safari/537.36 Edg/139.0.0.0');
         await page.setViewport({ width: 1920, height: 1080 });
@@ -972,7 +1469,8 @@ export class CodeforcesAPI {
           'upgrade-insecure-requests': '1',
           'Accept-Language': 'zh-CN,zh;q=0.9,en;q=0.8'
         });
-        // 访问页面
+        // 访问页面（与其他网页请求共用限流）
+         await httpClient.throttleWeb();
          const response = await page.goto(url, { 
            waitUntil: 'domcontentloaded',
            timeout: 30000
@@ -991,38 +1489,50 @@ export class CodeforcesAPI {
          // 成功获取页面内容
          
          const $ = cheerio.load(content);
-         const problemStatement = this.parseProblemStatement($, contestId, index);
+         const problemStatement = this.parseProblemStatement($, problem, language);
          
-         // 题目解析成功
-        
-        await browser.close();
+         // 验证码、登录页或未加载完的页面没有标题和题面，不能缓存（题面默认永久缓存）
+         const title = $('.problem-statement .header .title').text().trim();
+         if (!title || !problemStatement.statement?.trim()) {
+           throw new Error(`页面中没有完整的题面（HTTP ${response?.status() ?? '未知'}），可能遇到了验证页面或需要登录`);
+         }
         
         // 缓存结果
-        cacheManager.set(cacheKey, problemStatement);
+        this.setCached('problem.statement', cacheKey, problemStatement);
         return problemStatement;
         
       } catch (puppeteerError) {
         console.error('Puppeteer错误:', puppeteerError);
-        if (browser) {
-          await browser.close();
-        }
         throw puppeteerError;
+      } finally {
+        await page?.close().catch(() => {});
+        if (this.browserSessionDepth === 0) {
+          await this.closeBrowser();
+        }
       }
     } catch (error: any) {
+      // 无法访问网页时使用之前缓存的题面（如 --no-cache 时）
+      try {
+        return this.useStaleCache<ProblemStatement>(cacheKey, error, true);
+      } catch {
+        // 没有缓存时返回错误提示
+      }
       console.error('网页抓取也失败了:', error.message);
       
       // 返回一个基本的错误信息
+      const problemUrl = this.getProblemUrl(problem);
       const errorStatement: ProblemStatement = {
-        contestId,
+        contestId: problem.problemsetName ? undefined : contestId,
         index,
-        name: `题目 ${contestId}${index}`,
+        name: `题目 ${formatProblemRef(problem)}`,
         timeLimit: '未知',
         memoryLimit: '未知',
-        statement: `<p>抱歉，由于网络限制无法获取题目内容。</p><p>请直接访问: <a href="https://codeforces.com/contest/${contestId}/problem/${index}" target="_blank">https://codeforces.com/contest/${contestId}/problem/${index}</a></p><p>错误信息: ${error.message}</p>`,
+        statement: `<p>抱歉，由于网络限制无法获取题目内容。</p><p>请直接访问: <a href="${problemUrl}" target="_blank">${problemUrl}</a></p><p>错误信息: ${error.message}</p>`,
         inputFormat: '请访问原网站查看',
         outputFormat: '请访问原网站查看',
         samples: [],
-        note: undefined
+        note: undefined,
+        language
       };
       
       return errorStatement;
@@ -1032,26 +1542,44 @@ export class CodeforcesAPI {
   /**
    * 解析题面HTML
    */
-  private parseProblemStatement($: cheerio.CheerioAPI, contestId: number, index: string): ProblemStatement {
+  private parseProblemStatement($: cheerio.CheerioAPI, problem: ProblemRef, language: StatementLanguage = 'en'): ProblemStatement {
+    const { index } = problem;
+    // 题库题目（如 acmsguru）不属于任何比赛
+    const contestId = problem.problemsetName ? undefined : problem.contestId;
+    // 图片地址改为绝对地址，保存的题面离开网站后仍可访问或下载
+    const pageUrl = this.getProblemUrl(problem);
+    $('.problem-statement img').each((_, element) => {
+      const src = $(element).attr('src');
+      if (src && !src.startsWith('data:')) {
+        $(element).attr('src', new URL(src, pageUrl).href);
+      }
+    });
     // 获取题目名称 - 从 .header .title 中获取
     const nameElement = $('.ttypography .problem-statement .header .title');
     let name = nameElement.text().trim();
     // 移除题目编号前缀（如 "A. "）
-    name = name.replace(/^[A-Z]\. /, '') || `题目 ${contestId}${index}`;
+    name = name.replace(/^[A-Z0-9]+\. /, '') || `题目 ${formatProblemRef(problem)}`;
     // 获取时间和内存限制
     const timeLimitElement = $('.ttypography .problem-statement .header .time-limit');
     const memoryLimitElement = $('.ttypography .problem-statement .header .memory-limit');
-    // 提取时间限制，格式如 "1 second"
+    // 提取时间限制，格式如 "1 second"（俄文题面的单位换成英文，便于测试时解析）
     let timeLimit = '未知';
     if (timeLimitElement.length > 0) {
-      const timeLimitText = timeLimitElement.text();
-      const timeMatch = timeLimitText.match(/\d+\s*(second|millisecond)s?/i);
+      const timeLimitText = timeLimitElement.text()
+        .replace(/миллисекунд\S*/i, 'milliseconds')
+        .replace(/секунд\S*/i, 'seconds')
+        .replace('ограничение по времени на тест', '');
+      const timeMatch = timeLimitText.match(/\d+(?:\.\d+)?\s*(second|millisecond)s?/i);
       timeLimit = timeMatch ? timeMatch[0] : timeLimitText.replace('time limit per test', '').trim();
     }
     // 提取内存限制，格式如 "256 megabytes"
     let memoryLimit = '未知';
     if (memoryLimitElement.length > 0) {
-      const memoryLimitText = memoryLimitElement.text();
+      const memoryLimitText = memoryLimitElement.text()
+        .replace(/килобайт\S*/i, 'kilobytes')
+        .replace(/мегабайт\S*/i, 'megabytes')
+        .replace(/гигабайт\S*/i, 'gigabytes')
+        .replace('ограничение по памяти на тест', '');
       const memoryMatch = memoryLimitText.match(/\d+\s*(megabyte|kilobyte|gigabyte)s?/i);
       memoryLimit = memoryMatch ? memoryMatch[0] : memoryLimitText.replace('memory limit per test', '').trim();
     }
@@ -1083,72 +1611,49 @@ export class CodeforcesAPI {
       clonedOutput.find('.section-title').remove();
       outputFormat = clonedOutput.html() || '无特殊说明';
     }
+    // 获取交互说明（交互题才有）
+    const interactionElement = $('.ttypography .problem-statement .interaction');
+    let interaction: string | undefined;
+    if (interactionElement.length > 0) {
+      const clonedInteraction = interactionElement.clone();
+      clonedInteraction.find('.section-title').remove();
+      interaction = clonedInteraction.html()?.trim() || undefined;
+    }
+    // 有交互说明，或题面注明 "This is an interactive problem" 时视为交互题
+    const interactive = !!interaction || /interactive problem|интерактивная задача/i.test(cheerio.load(statement).text());
     // 获取样例 - 从 .sample-tests 中提取
+    // 一个 .sample-test 容器中可能包含多组 .input/.output，按顺序配对
     const samples: Sample[] = [];
     const sampleTests = $('.ttypography .problem-statement .sample-tests');
     if (sampleTests.length > 0) {
-      // 查找样例测试容器
-      const sampleTest = sampleTests.find('.sample-test');
-      if (sampleTest.length > 0) {
-        const inputDiv = sampleTest.find('.input pre');
-        const outputDiv = sampleTest.find('.output pre');
-        if (inputDiv.length > 0 && outputDiv.length > 0) {
-          // 提取输入，正确处理test-example-line div标签
-          const inputLines = inputDiv.find('.test-example-line');
-          let input = '';
-          if (inputLines.length > 0) {
-            // 分别提取每个test-example-line div的文本内容
-            const lines: string[] = [];
-            inputLines.each((index, element) => {
-              const lineText = $(element).text().trim();
-              if (lineText) {
-                lines.push(lineText);
-              }
-            });
-            input = lines.join('\n');
-          } else {
-            // 备用方案：直接获取文本内容
-            input = inputDiv.text().trim();
-          }
-          
-          // 提取输出
-          let output = outputDiv.text().trim();
-          
-          if (input || output) {
-            samples.push({ input, output });
-          }
+      const inputs = sampleTests.find('.input pre');
+      const outputs = sampleTests.find('.output pre');
+      
+      const minLength = Math.min(inputs.length, outputs.length);
+      for (let i = 0; i < minLength; i++) {
+        // 提取输入，正确处理test-example-line div标签
+        const inputDiv = $(inputs[i]);
+        const inputLines = inputDiv.find('.test-example-line');
+        let input = '';
+        if (inputLines.length > 0) {
+          // 分别提取每个test-example-line div的文本内容
+          const lines: string[] = [];
+          inputLines.each((index, element) => {
+            const lineText = $(element).text().trim();
+            if (lineText) {
+              lines.push(lineText);
+            }
+          });
+          input = lines.join('\n');
+        } else {
+          // 备用方案：直接获取文本内容
+          input = inputDiv.text().trim();
         }
-      } else {
-        // 备用方案：直接查找 .input 和 .output
-        const inputs = sampleTests.find('.input pre');
-        const outputs = sampleTests.find('.output pre');
         
-        const minLength = Math.min(inputs.length, outputs.length);
-        for (let i = 0; i < minLength; i++) {
-          // 提取输入，正确处理test-example-line div标签
-          const inputDiv = $(inputs[i]);
-          const inputLines = inputDiv.find('.test-example-line');
-          let input = '';
-          if (inputLines.length > 0) {
-            // 分别提取每个test-example-line div的文本内容
-            const lines: string[] = [];
-            inputLines.each((index, element) => {
-              const lineText = $(element).text().trim();
-              if (lineText) {
-                lines.push(lineText);
-              }
-            });
-            input = lines.join('\n');
-          } else {
-            // 备用方案：直接获取文本内容
-            input = inputDiv.text().trim();
-          }
-          
-          let output = $(outputs[i]).text().trim();
-          
-          // 移除可能的行号标记
-          input = input.replace(/^\d+\s*/gm, '');
-          
+        // 提取输出
+        const output = $(outputs[i]).text().trim();
+        
+        if (input || output) {
           samples.push({ input, output });
         }
       }
@@ -1164,6 +1669,10 @@ export class CodeforcesAPI {
       const noteContent = clonedNote.html()?.trim();
       note = noteContent || undefined;
     }
+    // 没有所请求语言版本的题目，网站会返回另一种语言，按正文中是否有西里尔字母判断实际语言
+    const text = cheerio.load(`${statement}${inputFormat}${outputFormat}`).text();
+    const actualLanguage: StatementLanguage = text.trim() ? (/[а-яё]/i.test(text) ? 'ru' : 'en') : language;
+
     return {
       contestId,
       index,
@@ -1174,7 +1683,10 @@ export class CodeforcesAPI {
       inputFormat,
       outputFormat,
       samples,
-      note
+      interaction,
+      interactive: interactive || undefined,
+      note,
+      language: actualLanguage
     };
   }
 
@@ -1184,7 +1696,6 @@ export class CodeforcesAPI {
   formatProblemStatement(statement: ProblemStatement, format: StatementFormat): string {
     // console.log(statement.statement);
     if (format === StatementFormat.MARKDOWN) {
-      console.log("markdown格式");
       let markdown = `# ${statement.name || '未知题目'}\n\n`;
       
       // 时间和内存限制
@@ -1223,6 +1734,15 @@ export class CodeforcesAPI {
         }
       }
       
+      // 交互说明
+      if (statement.interaction) {
+        markdown += '## Interaction\n\n';
+        const interactionMd = htmlToMarkdown(statement.interaction);
+        if (interactionMd) {
+          markdown += interactionMd + '\n\n';
+        }
+      }
+      
       // 样例
       if (statement.samples.length > 0) {
         markdown += `## Sample Tests\n\n`;
@@ -1271,6 +1791,10 @@ export class CodeforcesAPI {
         html += `<h2>Output Format</h2>\n${statement.outputFormat}\n`;
       }
       
+      if (statement.interaction) {
+        html += `<h2>Interaction</h2>\n${statement.interaction}\n`;
+      }
+      
       if (statement.samples.length > 0) {
         html += `<h2>Sample Tests</h2>\n`;
         statement.samples.forEach((sample, index) => {
@@ -1293,7 +1817,10 @@ export class CodeforcesAPI {
 // 导出单例实例
 export const codeforcesAPI = new CodeforcesAPI();
 
-function htmlToMarkdown(html: string): string {
+/**
+ * 将题面、博客等 HTML 转换为 Markdown，保留 MathJax 公式
+ */
+export function htmlToMarkdown(html: string): string {
   
   // 第一步：专门处理MathJax公式结构
   function processMathJax(html: string): string {
@@ -1308,10 +1835,13 @@ function htmlToMarkdown(html: string): string {
       mathTexScripts.push(cleanContent);
       return `__MATHJAX_FORMULA_${mathTexScripts.length - 1}__`;
     });
-    //移除全部的span标签及其内容
-    result = result.replace(/<span[^>]*>.*?<\/span>/gi, '');
-    //移除全部</span>标签
-    result = result.replace(/<\/span>/gi, '');
+    // 2. 移除 MathJax 渲染出的公式（已从 script 中提取），其余 span 只保留内容（如 tex-span 公式、博客中的样式）
+    const $ = cheerio.load(result, null, false);
+    $('[class*="MathJax"], [class*="mjx"]').remove();
+    $('span').each((_, element) => {
+      $(element).replaceWith($(element).contents());
+    });
+    result = $.html();
     // 移除nobr标签但保留内容
     result = result.replace(/<nobr[^>]*>(.*?)<\/nobr>/gi, '$1');
     // 移除全部</nobr>标签
@@ -1330,11 +1860,11 @@ function htmlToMarkdown(html: string): string {
     
     // 处理段落和换行
     text = text.replace(/<\/p>/gi, '\n\n');
-    text = text.replace(/<p[^>]*>/gi, '');
+    text = text.replace(/<p(?:\s[^>]*)?>/gi, '');
     text = text.replace(/<br\s*\/?>/gi, '\n');
     
     // 处理标题
-    text = text.replace(/<h[1-6][^>]*>(.*?)<\/h[1-6]>/gi, '$1\n\n');
+    text = text.replace(/<h([1-6])[^>]*>(.*?)<\/h[1-6]>/gi, (match, level, title) => `${'#'.repeat(parseInt(level))} ${title}\n\n`);
     
     // 处理列表
     text = text.replace(/<\/li>/gi, '\n');
@@ -1350,7 +1880,14 @@ function htmlToMarkdown(html: string): string {
     
     // 处理代码
     text = text.replace(/<code[^>]*>(.*?)<\/code>/gi, '`$1`');
-    text = text.replace(/<pre[^>]*>(.*?)<\/pre>/gi, '```\n$1\n```');
+    text = text.replace(/<pre[^>]*>([\s\S]*?)<\/pre>/gi, '\n```\n$1\n```\n\n');
+    
+    // 处理图片
+    text = text.replace(/<img[^>]*>/gi, (tag) => {
+      const src = tag.match(/\bsrc\s*=\s*["']([^"']*)["']/i);
+      const alt = tag.match(/\balt\s*=\s*["']([^"']*)["']/i);
+      return src ? `![${alt ? alt[1] : ''}](${src[1]})` : '';
+    });
     
     // 处理链接（保留文本，去掉链接）
     text = text.replace(/<a[^>]*>(.*?)<\/a>/gi, '$1');
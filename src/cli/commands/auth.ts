@@ -6,7 +6,7 @@ import * as readline from 'readline';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { saveConfig, loadConfig } from '../../config/index.js';
+import { saveConfig, loadConfig, updateConfig } from '../../config/index.js';
 
 // 创建一个用于安全读取密码的函数
 function readPassword(query: string): Promise<string> {
@@ -102,6 +102,14 @@ async function checkLoginStatus(): Promise<{ handle?: string, loggedIn: boolean
   }
 }
 
+/**
+ * 保存 API key 和 secret，传入 undefined 时清除
+ */
+function saveApiKey(apiKey?: string, apiSecret?: string): void {
+  const { apiKey: _key, apiSecret: _secret, ...api } = loadConfig().api;
+  updateConfig({ api: apiKey && apiSecret ? { ...api, apiKey, apiSecret } : api });
+}
+
 export const authCommand = new Command('auth')
   .description('登录和认证相关命令')
   .addCommand(
@@ -109,7 +117,7 @@ export const authCommand = new Command('auth')
       .description('手动输入登录信息（在浏览器中登录后）')
       .action(async () => {
         try {
-          console.log('请先在浏览器中登录Codeforces网站 (https://codeforces.com/enter)');
+          console.log(`请先在浏览器中登录Codeforces网站 (${codeforcesAPI.getSiteUrl('/enter')})`);
           console.log('登录成功后，请按照提示输入以下信息：');
           
           // 创建readline接口
@@ -314,4 +322,77 @@ export const authCommand = new Command('auth')
           process.exit(1);
         }
       })
-  );
\ No newline at end of file
+  )
+  .addCommand(
+    new Command('apikey')
+      .description('管理 API key，设置后所有 API 请求都会签名，可使用需要授权的方法')
+      .addCommand(
+        new Command('set')
+          .description('设置 API key 和 secret')
+          .argument('[key]', 'API key')
+          .option('-s, --secret <secret>', 'API secret（不推荐在命令行中直接提供）')
+          .option('--no-verify', '不发送请求验证 API key')
+          .action(async (key, options) => {
+            try {
+              console.log(`API key 可在 ${codeforcesAPI.getSiteUrl('/settings/api')} 创建`);
+
+              let apiKey = key;
+              if (!apiKey) {
+                const rl = readline.createInterface({
+                  input: process.stdin,
+                  output: process.stdout
+                });
+                apiKey = await new Promise<string>((resolve) => {
+                  rl.question('请输入 API key: ', (answer) => {
+                    resolve(answer.trim());
+                    rl.close();
+                  });
+                });
+              }
+
+              const apiSecret = options.secret || await readPassword('请输入 API secret: ');
+
+              if (!apiKey || !apiSecret) {
+                console.error('API key 和 secret 不能为空');
+                process.exit(1);
+              }
+
+              const previous = loadConfig().api;
+              saveApiKey(apiKey, apiSecret);
+
+              if (options.verify) {
+                console.log('正在验证 API key...');
+                try {
+                  const response = await httpClient.get('/user.info', { handles: loadConfig().handle || 'tourist' });
+                  if (response.status !== 'OK') {
+                    throw new Error(response.comment);
+                  }
+                } catch (error: any) {
+                  // 验证失败时恢复原来的设置
+                  saveApiKey(previous.apiKey, previous.apiSecret);
+                  console.error('API key 验证失败:', error.response?.data?.comment || error.message);
+                  process.exit(1);
+                }
+              }
+
+              console.log('API key 已保存，之后的 API 请求都会签名');
+            } catch (error: any) {
+              console.error('设置 API key 失败:', error.message);
+              process.exit(1);
+            }
+          })
+      )
+      .addCommand(
+        new Command('clear')
+          .description('清除 API key，之后的 API 请求不再签名')
+          .action(() => {
+            try {
+              saveApiKey();
+              console.log('API key 已清除');
+            } catch (error: any) {
+              console.error('清除 API key 失败:', error.message);
+              process.exit(1);
+            }
+          })
+      )
+  );
@@ -0,0 +1,237 @@
+import { Command } from 'commander';
+import { codeforcesAPI, htmlToMarkdown } from '../../api/codeforces.js';
+import { BlogEntry, Comment, RecentAction } from '../../types/index.js';
+
+/**
+ * 格式化时间，如 2023/11/15 06:13:20
+ */
+function formatTime(seconds: number): string {
+  return new Date(seconds * 1000).toLocaleString();
+}
+
+/**
+ * 带符号的评分，如 +25、-3
+ */
+function formatRating(rating: number): string {
+  return rating > 0 ? `+${rating}` : rating.toString();
+}
+
+/**
+ * 博客标题（API 返回的标题是 HTML）
+ */
+function formatTitle(entry: BlogEntry): string {
+  return htmlToMarkdown(entry.title).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * 截断过长的文本
+ */
+function truncate(text: string, width: number): string {
+  return text.length > width ? text.substring(0, width - 3) + '...' : text;
+}
+
+/**
+ * 给多行文本的每一行加上缩进
+ */
+function indent(text: string, prefix: string): string {
+  return text.split('\n').map(line => prefix + line).join('\n');
+}
+
+/**
+ * 格式化博客文章：标题、作者等信息和 Markdown 正文
+ */
+function formatBlogEntry(entry: BlogEntry): string {
+  const lines = [
+    `# ${formatTitle(entry)}`,
+    '',
+    `作者: ${entry.authorHandle}  发布时间: ${formatTime(entry.creationTimeSeconds)}  评分: ${formatRating(entry.rating)}`
+  ];
+  if (entry.tags.length > 0) {
+    lines.push(`标签: ${entry.tags.join(', ')}`);
+  }
+  lines.push(`链接: ${codeforcesAPI.getBlogUrl(entry.id)}`, '', '-'.repeat(80), '', htmlToMarkdown(entry.content || ''));
+  return lines.join('\n');
+}
+
+/**
+ * 按回复关系输出评论，回复缩进显示在被回复的评论下方
+ */
+function printCommentTree(blogEntryId: number, comments: Comment[]): void {
+  const ids = new Set(comments.map(comment => comment.id));
+  const replies = new Map<number, Comment[]>();
+  const roots: Comment[] = [];
+  for (const comment of [...comments].sort((a, b) => a.creationTimeSeconds - b.creationTimeSeconds)) {
+    // 被回复的评论已删除时作为顶层评论显示
+    if (comment.parentCommentId && ids.has(comment.parentCommentId)) {
+      const list = replies.get(comment.parentCommentId) || [];
+      list.push(comment);
+      replies.set(comment.parentCommentId, list);
+    } else {
+      roots.push(comment);
+    }
+  }
+
+  const print = (comment: Comment, depth: number) => {
+    const prefix = '    '.repeat(depth);
+    console.log(`${prefix}${comment.commentatorHandle} (${formatRating(comment.rating)})  ${formatTime(comment.creationTimeSeconds)}  #${comment.id}`);
+    console.log(indent(htmlToMarkdown(comment.text), prefix + '  '));
+    console.log('');
+    (replies.get(comment.id) || []).forEach(reply => print(reply, depth + 1));
+  };
+
+  roots.forEach(comment => print(comment, 0));
+  console.log(`共 ${comments.length} 条评论，原文: ${codeforcesAPI.getBlogUrl(blogEntryId)}`);
+}
+
+/**
+ * 格式化博客列表为表格
+ */
+function formatBlogTable(entries: BlogEntry[]): void {
+  console.log('\n' + '='.repeat(100));
+  console.log('ID'.padEnd(10) + 'Date'.padEnd(14) + 'Rating'.padEnd(10) + 'Title');
+  console.log('='.repeat(100));
+
+  entries.forEach(entry => {
+    console.log(
+      entry.id.toString().padEnd(10) +
+      new Date(entry.creationTimeSeconds * 1000).toLocaleDateString().padEnd(14) +
+      formatRating(entry.rating).padEnd(10) +
+      truncate(formatTitle(entry), 66)
+    );
+  });
+
+  console.log('='.repeat(100) + '\n');
+}
+
+/**
+ * 格式化一条最近动态，如 [时间] 评论 tourist -> 《标题》
+ */
+function formatRecentAction(action: RecentAction): string {
+  const time = formatTime(action.timeSeconds);
+  const entry = action.blogEntry;
+  const title = entry ? `《${truncate(formatTitle(entry), 50)}》` : '';
+  if (action.comment) {
+    const text = truncate(htmlToMarkdown(action.comment.text).replace(/\s+/g, ' '), 60);
+    return `[${time}] 评论 ${action.comment.commentatorHandle} -> ${title} (${entry?.id}#${action.comment.id})\n    ${text}`;
+  }
+  return `[${time}] 博客 ${entry?.authorHandle} ${title} (${entry?.id})`;
+}
+
+/**
+ * 解析博客ID，也接受博客网址
+ */
+function parseBlogEntryId(input: string): number {
+  const match = input.match(/(?:entry\/)?(\d+)(?:#.*)?\/?$/);
+  if (!match) {
+    console.error('博客ID格式不正确，例如：120001 或 https://codeforces.com/blog/entry/120001');
+    process.exit(1);
+  }
+  return parseInt(match[1]);
+}
+
+export const blogCommand = new Command('blog')
+  .description('阅读博客文章和评论')
+  .addCommand(
+    new Command('view')
+      .description('查看博客文章')
+      .argument('<id>', '博客ID或网址')
+      .option('-f, --format <format>', '输出格式 (markdown|json)', 'markdown')
+      .action(async (idArg, options) => {
+        try {
+          const entry = await codeforcesAPI.getBlogEntry(parseBlogEntryId(idArg));
+
+          if (options.format === 'json') {
+            console.log(JSON.stringify(entry, null, 2));
+            return;
+          }
+          console.log(formatBlogEntry(entry));
+        } catch (error: any) {
+          console.error('获取博客文章失败:', error.message);
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('comments')
+      .description('查看博客文章的评论')
+      .argument('<id>', '博客ID或网址')
+      .option('-f, --format <format>', '输出格式 (tree|json)', 'tree')
+      .action(async (idArg, options) => {
+        try {
+          const blogEntryId = parseBlogEntryId(idArg);
+          const comments = await codeforcesAPI.getBlogComments(blogEntryId);
+
+          if (options.format === 'json') {
+            console.log(JSON.stringify(comments, null, 2));
+            return;
+          }
+          if (comments.length === 0) {
+            console.log('暂无评论');
+            return;
+          }
+          printCommentTree(blogEntryId, comments);
+        } catch (error: any) {
+          console.error('获取评论失败:', error.message);
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('user')
+      .description('列出用户的博客文章')
+      .argument('<handle>', '用户名')
+      .option('-l, --limit <number>', '限制返回数量', '20')
+      .option('-f, --format <format>', '输出格式 (table|json)', 'table')
+      .action(async (handle, options) => {
+        try {
+          const entries = await codeforcesAPI.getUserBlogEntries(handle);
+          const limited = [...entries]
+            .sort((a, b) => b.creationTimeSeconds - a.creationTimeSeconds)
+            .slice(0, parseInt(options.limit));
+
+          if (options.format === 'json') {
+            console.log(JSON.stringify(limited, null, 2));
+            return;
+          }
+          if (limited.length === 0) {
+            console.log(`用户 ${handle} 还没有发表过博客`);
+            return;
+          }
+          formatBlogTable(limited);
+          console.log(`共 ${entries.length} 篇博客，查看文章: cf blog view <ID>`);
+        } catch (error: any) {
+          console.error('获取用户博客失败:', error.message);
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('recent')
+      .description('查看最近的博客和评论')
+      .option('-c, --count <number>', '返回数量 (1-100)', '20')
+      .option('-f, --format <format>', '输出格式 (list|json)', 'list')
+      .action(async (options) => {
+        try {
+          const count = parseInt(options.count);
+          if (isNaN(count) || count < 1 || count > 100) {
+            console.error('返回数量应在 1 到 100 之间');
+            process.exit(1);
+          }
+
+          const actions = await codeforcesAPI.getRecentActions(count);
+
+          if (options.format === 'json') {
+            console.log(JSON.stringify(actions, null, 2));
+            return;
+          }
+          if (actions.length === 0) {
+            console.log('暂无最近动态');
+            return;
+          }
+          actions.forEach(action => console.log(formatRecentAction(action)));
+        } catch (error: any) {
+          console.error('获取最近动态失败:', error.message);
+          process.exit(1);
+        }
+      })
+  );
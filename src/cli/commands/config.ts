@@ -1,9 +1,13 @@
 import { Command } from 'commander';
-import { getConfig, updateConfig, saveConfig } from '../../config/index.js';
+import { getConfig, updateConfig, saveConfig, loadConfig } from '../../config/index.js';
 import { AppConfig } from '../../types/index.js';
+import { CACHEABLE_METHODS, parseCachePolicy } from '../../utils/cache.js';
 import { homedir } from 'os';
 import { join } from 'path';
 
+// 缓存策略配置项的前缀，之后是 API 方法名（本身包含点，如 cache.policies.contest.standings）
+const CACHE_POLICY_PREFIX = 'cache.policies.';
+
 /**
  * 显示配置信息
  */
@@ -14,12 +18,14 @@ function displayConfig(config: AppConfig): void {
   
   console.log('\nAPI 配置:');
   console.log(`  基础URL: ${config.api.baseUrl}`);
+  console.log(`  网站URL: ${config.api.siteUrl}`);
   console.log(`  超时时间: ${config.api.timeout}ms`);
   console.log(`  重试次数: ${config.api.retryAttempts}`);
   console.log(`  重试延迟: ${config.api.retryDelay}ms`);
+  console.log(`  API Key: ${config.api.apiKey ? `${config.api.apiKey.substring(0, 4)}****（请求将被签名）` : '未设置'}`);
   
   console.log('\n速率限制:');
-  console.log(`  请求间隔: ${config.api.rateLimit.requestInterval}ms`);
+  console.log(`  请求间隔: ${config.api.rateLimit.requestInterval ?? 0}ms`);
   console.log(`  突发请求数: ${config.api.rateLimit.burstLimit}`);
   
   console.log('\n缓存配置:');
@@ -28,6 +34,16 @@ function displayConfig(config: AppConfig): void {
   console.log(`  最大条目: ${config.cache.maxEntries}`);
   console.log(`  最大大小: ${Math.round(config.cache.maxSize / 1024 / 1024)}MB`);
   console.log(`  缓存目录: ${config.cache.cacheDir}`);
+  console.log('  缓存策略（未列出的方法使用过期时间）:');
+  Object.entries(config.cache.policies || {}).forEach(([method, policy]) => {
+    console.log(`    ${method}: ${typeof policy === 'number' ? `${policy}秒` : policy}`);
+  });
+  
+  console.log('\n源文件模板:');
+  console.log(`  模板数量: ${Object.keys(config.templates || {}).length}`);
+  Object.entries(config.defaultTemplates || {}).forEach(([language, name]) => {
+    console.log(`  ${language} 默认模板: ${name}`);
+  });
   
   console.log('='.repeat(50) + '\n');
 }
@@ -36,6 +52,22 @@ function displayConfig(config: AppConfig): void {
  * 验证配置值
  */
 function validateConfigValue(key: string, value: string): any {
+  // 缓存策略：default 表示删除设置，恢复默认策略
+  if (key.startsWith(CACHE_POLICY_PREFIX)) {
+    const method = key.substring(CACHE_POLICY_PREFIX.length);
+    if (!CACHEABLE_METHODS.includes(method)) {
+      throw new Error(`未知的 API 方法: ${method}，可设置的方法: ${CACHEABLE_METHODS.join(', ')}`);
+    }
+    if (value.trim().toLowerCase() === 'default') {
+      return undefined;
+    }
+    const policy = parseCachePolicy(value);
+    if (policy === null) {
+      throw new Error(`${key} 必须是正整数（秒）、never、forever 或 default`);
+    }
+    return policy;
+  }
+
   switch (key) {
     case 'api.timeout':
     case 'api.retryAttempts':
@@ -61,6 +93,7 @@ function validateConfigValue(key: string, value: string): any {
       }
     
     case 'api.baseUrl':
+    case 'api.siteUrl':
     case 'cache.cacheDir':
       if (!value.trim()) {
         throw new Error(`${key} 不能为空`);
@@ -73,10 +106,20 @@ function validateConfigValue(key: string, value: string): any {
 }
 
 /**
- * 设置嵌套配置值
+ * 拆分配置项路径，cache.policies 之后的 API 方法名作为一个整体
+ */
+function splitConfigPath(path: string): string[] {
+  if (path.startsWith(CACHE_POLICY_PREFIX)) {
+    return ['cache', 'policies', path.substring(CACHE_POLICY_PREFIX.length)];
+  }
+  return path.split('.');
+}
+
+/**
+ * 设置嵌套配置值，值为 undefined 时删除该项
  */
 function setNestedValue(obj: any, path: string, value: any): void {
-  const keys = path.split('.');
+  const keys = splitConfigPath(path);
   let current = obj;
   
   for (let i = 0; i < keys.length - 1; i++) {
@@ -87,14 +130,18 @@ function setNestedValue(obj: any, path: string, value: any): void {
     current = current[key];
   }
   
-  current[keys[keys.length - 1]] = value;
+  if (value === undefined) {
+    delete current[keys[keys.length - 1]];
+  } else {
+    current[keys[keys.length - 1]] = value;
+  }
 }
 
 /**
  * 获取嵌套配置值
  */
 function getNestedValue(obj: any, path: string): any {
-  const keys = path.split('.');
+  const keys = splitConfigPath(path);
   let current = obj;
   
   for (const key of keys) {
@@ -138,15 +185,15 @@ export const configCommand = new Command('config')
   .addCommand(
     new Command('set')
       .description('设置配置项')
-      .argument('<key>', '配置项名称 (如: api.timeout, cache.enabled)')
+      .argument('<key>', '配置项名称 (如: api.timeout, cache.enabled, cache.policies.contest.standings)')
       .argument('<value>', '配置项值')
       .action(async (key, value) => {
         try {
           // 验证配置值
           const validatedValue = validateConfigValue(key, value);
           
-          // 获取当前配置
-          const config = getConfig();
+          // 获取配置文件中的配置（不含环境变量覆盖）
+          const config = loadConfig();
           
           // 设置新值
           setNestedValue(config, key, validatedValue);
@@ -154,7 +201,11 @@ export const configCommand = new Command('config')
           // 保存配置
           await saveConfig(config);
           
-          console.log(`配置项 '${key}' 已设置为: ${JSON.stringify(validatedValue)}`);
+          if (validatedValue === undefined) {
+            console.log(`配置项 '${key}' 已恢复默认值`);
+          } else {
+            console.log(`配置项 '${key}' 已设置为: ${JSON.stringify(validatedValue)}`);
+          }
         } catch (error: any) {
           console.error('设置配置失败:', error.message);
           process.exit(1);
@@ -237,6 +288,10 @@ export const configCommand = new Command('config')
             issues.push('API baseUrl 不能为空');
           }
           
+          if (!config.api.siteUrl) {
+            issues.push('API siteUrl 不能为空');
+          }
+          
           if (config.api.timeout <= 0) {
             issues.push('API timeout 必须大于 0');
           }
@@ -273,6 +328,12 @@ export const configCommand = new Command('config')
           if (!config.cache.cacheDir) {
             issues.push('cache cacheDir 不能为空');
           }
+
+          Object.entries(config.cache.policies || {}).forEach(([method, policy]) => {
+            if (parseCachePolicy(policy) === null) {
+              issues.push(`cache policies ${method} 必须是正整数（秒）、never 或 forever`);
+            }
+          });
           
           if (issues.length === 0) {
             console.log('✅ 配置验证通过');
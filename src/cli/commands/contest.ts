@@ -1,9 +1,23 @@
 import { Command } from 'commander';
 import { CodeforcesAPI } from '../../api/codeforces.js';
-import { Contest, StatementFormat } from '../../types/index.js';
+import { Contest, ContestRef, Hack, Party, StatementFormat, Submission } from '../../types/index.js';
+import { formatSubmissionStatus } from '../../utils/verdict.js';
+import { buildContestWorkspace, resolveSourceOptions, parseContestOrExit } from './parse.js';
+import { formatContestRef, parseStatementLanguage } from '../../utils/problem.js';
+import { predictContestRatings, formatDelta } from '../../utils/rating.js';
+import { localizeStatementImages } from '../../utils/assets.js';
 import * as fs from 'fs';
 import * as path from 'path';
 
+// 比赛开始时间未定时检查比赛阶段的间隔（秒）
+const WAIT_REFRESH_INTERVAL = 300;
+// 倒计时结束后确认比赛开始的轮询间隔（毫秒）
+const WAIT_POLL_INTERVAL = 5000;
+// 比赛开始后获取题目列表的重试次数
+const WAIT_PARSE_ATTEMPTS = 10;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
 /**
  * 格式化竞赛信息
  */
@@ -63,6 +77,167 @@ function formatContestTable(contests: Contest[]): void {
   console.log('='.repeat(120) + '\n');
 }
 
+/**
+ * 参赛方名称：队伍名或成员用户名
+ */
+function formatParty(party: Party): string {
+  return party.teamName || party.members.map(member => member.handle).join(', ') || 'Unknown';
+}
+
+/**
+ * 提交时间：比赛中的提交显示相对开始的时间（如 1:05），练习提交显示日期
+ */
+function formatSubmissionTime(submission: Submission): string {
+  // 练习提交的相对时间为 2^31-1
+  if (submission.relativeTimeSeconds < 2147483647) {
+    const minutes = Math.floor(submission.relativeTimeSeconds / 60);
+    return `${Math.floor(minutes / 60)}:${(minutes % 60).toString().padStart(2, '0')}`;
+  }
+  return new Date(submission.creationTimeSeconds * 1000).toLocaleDateString();
+}
+
+/**
+ * 截断过长的文本
+ */
+function truncate(text: string, length: number): string {
+  return text.length > length ? text.substring(0, length - 3) + '...' : text;
+}
+
+/**
+ * 格式化提交记录为表格
+ */
+function formatStatusTable(submissions: Submission[]): void {
+  console.log('\n' + '='.repeat(120));
+  console.log('ID'.padEnd(12) + 'When'.padEnd(12) + 'Who'.padEnd(22) + 'Problem'.padEnd(9) + 'Lang'.padEnd(22) + 'Verdict'.padEnd(30) + 'Time'.padEnd(8) + 'Memory');
+  console.log('='.repeat(120));
+
+  submissions.forEach(submission => {
+    console.log(
+      submission.id.toString().padEnd(12) +
+      formatSubmissionTime(submission).padEnd(12) +
+      truncate(formatParty(submission.author), 20).padEnd(22) +
+      submission.problem.index.padEnd(9) +
+      truncate(submission.programmingLanguage, 20).padEnd(22) +
+      truncate(formatSubmissionStatus(submission), 28).padEnd(30) +
+      `${submission.timeConsumedMillis}ms`.padEnd(8) +
+      `${Math.round(submission.memoryConsumedBytes / 1024)}KB`
+    );
+  });
+
+  console.log('='.repeat(120));
+}
+
+/**
+ * 格式化Hack记录为表格
+ */
+function formatHacksTable(hacks: Hack[]): void {
+  console.log('\n' + '='.repeat(104));
+  console.log('ID'.padEnd(10) + 'When'.padEnd(26) + 'Hacker'.padEnd(22) + 'Defender'.padEnd(22) + 'Problem'.padEnd(9) + 'Verdict');
+  console.log('='.repeat(104));
+
+  hacks.forEach(hack => {
+    console.log(
+      hack.id.toString().padEnd(10) +
+      new Date(hack.creationTimeSeconds * 1000).toLocaleString().padEnd(26) +
+      truncate(formatParty(hack.hacker), 20).padEnd(22) +
+      truncate(formatParty(hack.defender), 20).padEnd(22) +
+      hack.problem.index.padEnd(9) +
+      (hack.verdict || 'TESTING')
+    );
+  });
+
+  console.log('='.repeat(104));
+}
+
+/**
+ * 格式化倒计时，如 1d 02:03:04
+ */
+function formatCountdown(seconds: number): string {
+  const total = Math.max(0, Math.ceil(seconds));
+  const days = Math.floor(total / 86400);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  const time = `${pad(Math.floor((total % 86400) / 3600))}:${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}`;
+  return days > 0 ? `${days}d ${time}` : time;
+}
+
+/**
+ * 获取最新的竞赛信息（不使用缓存），训练赛在训练赛列表中查找
+ */
+async function fetchContest(api: CodeforcesAPI, ref: ContestRef): Promise<Contest | undefined> {
+  const contests = await api.getContests(!!ref.gym, false);
+  return contests.find(c => c.id === ref.contestId);
+}
+
+/**
+ * 获取比赛的最新阶段：只请求一行排名，避免反复下载整个竞赛列表
+ * @returns 比赛信息，比赛尚未开始（API 返回 has not started）时返回null
+ */
+async function fetchContestPhase(api: CodeforcesAPI, ref: ContestRef): Promise<Contest | null> {
+  try {
+    const { contest } = await api.getContestStandings(ref.contestId, 1, 1, undefined, false);
+    return contest;
+  } catch (error: any) {
+    if (/has not started/i.test(error.message)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 显示倒计时直到比赛阶段变为 CODING
+ * 开始时间来自竞赛列表，使用 relativeTimeSeconds 校正本地时钟与服务器的偏差；
+ * 倒计时结束（或开始时间未定）后轮询排名接口确认比赛阶段
+ */
+async function waitForContestStart(api: CodeforcesAPI, ref: ContestRef, contest: Contest): Promise<Contest> {
+  const isTTY = process.stdout.isTTY;
+  const fetchedAt = Date.now() / 1000;
+  let lastLine = '';
+
+  const show = (line: string) => {
+    if (isTTY) {
+      process.stdout.write(`\r${line.padEnd(lastLine.length)}`);
+    } else if (line !== lastLine) {
+      console.log(line);
+    }
+    lastLine = line;
+  };
+
+  while (contest.phase === 'BEFORE') {
+    const now = Date.now() / 1000;
+    // 服务器时间 = 开始时间 + 相对时间（获取时）+ 获取后经过的时间
+    const remaining = contest.startTimeSeconds !== undefined && contest.relativeTimeSeconds !== undefined
+      ? -(contest.relativeTimeSeconds + (now - fetchedAt))
+      : null;
+
+    if (remaining === null || remaining <= 0) {
+      show(remaining === null ? '比赛开始时间未定，定期检查中...' : '倒计时结束，正在确认比赛是否开始...');
+      try {
+        const latest = await fetchContestPhase(api, ref);
+        if (latest) {
+          contest = latest;
+        }
+      } catch (error) {
+        // 网络波动时继续等待，下次再重试
+      }
+      if (contest.phase !== 'BEFORE') {
+        break;
+      }
+      await sleep(remaining === null ? WAIT_REFRESH_INTERVAL * 1000 : WAIT_POLL_INTERVAL);
+      continue;
+    }
+
+    show(`距离开始还有 ${formatCountdown(remaining!)}`);
+    // 对齐到整秒刷新
+    await sleep(Math.max(50, (remaining! % 1) * 1000 || 1000));
+  }
+
+  if (isTTY && lastLine) {
+    process.stdout.write('\n');
+  }
+  return contest;
+}
+
 export const contestCommand = new Command('contest')
   .description('竞赛相关命令')
   .addCommand(
@@ -123,29 +298,50 @@ export const contestCommand = new Command('contest')
   .addCommand(
     new Command('standings')
       .description('获取竞赛排名')
-      .argument('<contestId>', '竞赛ID')
+      .argument('<contest>', '比赛，如 1234、gym:102345、group:abc/contest/123')
       .option('-f, --from <number>', '起始排名', '1')
       .option('-c, --count <number>', '返回数量', '10')
       .option('-u, --users <users>', '指定用户名，用逗号分隔')
+      .option('--friends', '只显示好友和自己（需要 API key）')
       .option('--format <format>', '输出格式 (table|json)', 'table')
-      .action(async (contestId, options) => {
+      .option('-p, --predict', '显示预测的积分变化（需要获取完整排名）')
+      .action(async (contestArg, options) => {
         try {
-          console.log(`正在获取竞赛 ${contestId} 的排名...`);
+          const { contestId } = parseContestOrExit(contestArg);
+          console.log(`正在获取竞赛 ${contestArg} 的排名...`);
           
           const from = parseInt(options.from);
           const count = parseInt(options.count);
-          const handles = options.users ? options.users.split(',').map((u: string) => u.trim()) : undefined;
+          let handles: string[] | undefined = options.users ? options.users.split(',').map((u: string) => u.trim()) : undefined;
           
           const api = new CodeforcesAPI();
+          if (options.friends) {
+            handles = [...(handles || []), ...await api.getFriendHandles()];
+            if (handles.length === 0) {
+              console.log('还没有好友，可以在 Codeforces 个人主页添加');
+              return;
+            }
+            console.log(`只显示好友和自己（${handles.length} 人）`);
+          }
           const standings = await api.getContestStandings(
-            parseInt(contestId),
+            contestId,
             from,
             count,
             handles
           );
+
+          const predictions = options.predict ? await predictContestRatings(contestId) : null;
           
           if (options.format === 'json') {
-            console.log(JSON.stringify(standings, null, 2));
+            if (predictions) {
+              const rows = standings.rows.map(row => ({
+                ...row,
+                prediction: predictions.get(row.party.members[0]?.handle) || null
+              }));
+              console.log(JSON.stringify({ ...standings, rows }, null, 2));
+            } else {
+              console.log(JSON.stringify(standings, null, 2));
+            }
           } else {
             console.log(`\n竞赛: ${standings.contest.name}`);
             console.log(`阶段: ${standings.contest.phase}`);
@@ -153,17 +349,19 @@ export const contestCommand = new Command('contest')
             
             // 显示排名表格
             console.log('='.repeat(80));
-            console.log('Rank'.padEnd(6) + 'Handle'.padEnd(20) + 'Points'.padEnd(10) + 'Penalty'.padEnd(10) + 'Hacks');
+            console.log('Rank'.padEnd(6) + 'Handle'.padEnd(20) + 'Points'.padEnd(10) + 'Penalty'.padEnd(10) + 'Hacks'.padEnd(12) + (predictions ? 'Δ (predicted)' : ''));
             console.log('='.repeat(80));
             
             standings.rows.forEach(row => {
               const handle = row.party.members[0]?.handle || 'Unknown';
+              const prediction = predictions?.get(handle);
               console.log(
                 row.rank.toString().padEnd(6) +
                 handle.padEnd(20) +
                 row.points.toString().padEnd(10) +
                 row.penalty.toString().padEnd(10) +
-                `+${row.successfulHackCount}/-${row.unsuccessfulHackCount}`
+                `+${row.successfulHackCount}/-${row.unsuccessfulHackCount}`.padEnd(12) +
+                (predictions ? (prediction ? formatDelta(prediction.delta) : '-') : '')
               );
             });
             
@@ -175,17 +373,159 @@ export const contestCommand = new Command('contest')
         }
       })
   )
+  .addCommand(
+    new Command('predict')
+      .description('预测比赛的积分变化（比赛进行中或已结束）')
+      .argument('<contest>', '比赛，如 1234、gym:102345、group:abc/contest/123')
+      .option('-u, --handles <handles>', '只显示指定用户，用逗号分隔')
+      .option('-f, --from <number>', '起始名次', '1')
+      .option('-c, --count <number>', '显示数量', '20')
+      .option('--format <format>', '输出格式 (table|json)', 'table')
+      .action(async (contestArg, options) => {
+        try {
+          const { contestId: contestIdNum } = parseContestOrExit(contestArg);
+
+          console.log(`正在获取竞赛 ${contestArg} 的完整排名和选手积分...`);
+          const predictions = await predictContestRatings(contestIdNum);
+
+          let results = [...predictions.values()].sort((a, b) => a.rank - b.rank);
+          if (options.handles) {
+            const handles = options.handles.split(',').map((h: string) => h.trim().toLowerCase());
+            results = results.filter(p => handles.includes(p.handle.toLowerCase()));
+          } else {
+            const from = parseInt(options.from);
+            results = results.slice(from - 1, from - 1 + parseInt(options.count));
+          }
+
+          if (results.length === 0) {
+            console.log('没有找到参与积分计算的选手');
+            return;
+          }
+
+          if (options.format === 'json') {
+            console.log(JSON.stringify(results, null, 2));
+            return;
+          }
+
+          const hasActual = results.some(p => p.actualDelta !== undefined);
+          console.log('\n' + '='.repeat(80));
+          console.log('Rank'.padEnd(8) + 'Handle'.padEnd(24) + 'Old'.padEnd(8) + 'Δ'.padEnd(8) + 'New'.padEnd(8) + (hasActual ? 'Actual Δ' : ''));
+          console.log('='.repeat(80));
+
+          results.forEach(p => {
+            console.log(
+              p.rank.toString().padEnd(8) +
+              p.handle.padEnd(24) +
+              p.oldRating.toString().padEnd(8) +
+              formatDelta(p.delta).padEnd(8) +
+              p.newRating.toString().padEnd(8) +
+              (p.actualDelta !== undefined ? formatDelta(p.actualDelta) : '')
+            );
+          });
+
+          console.log('='.repeat(80));
+          console.log(`\n共 ${predictions.size} 名选手参与计算${hasActual ? '（积分已更新，同时显示实际变化）' : ''}`);
+        } catch (error: any) {
+          console.error('预测积分变化失败:', error.message);
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('status')
+      .description('查看竞赛的提交记录（最新的在前），或用 --hacks 查看Hack记录')
+      .argument('<contest>', '比赛，如 1234、gym:102345、group:abc/contest/123')
+      .option('-u, --handle <handle>', '只显示指定用户的提交（Hack记录中匹配发起者或被hack的选手）')
+      .option('-p, --problem <index>', '只显示指定题目，如 A')
+      .option('-v, --verdict <verdict>', '按判题结果筛选，如 OK、WA、TLE、WRONG_ANSWER；Hack记录可用 successful、unsuccessful')
+      .option('-l, --lang <language>', '按语言筛选（名称包含即可），如 C++、Python')
+      .option('-c, --count <number>', '最多显示数量', '50')
+      .option('--hacks', '显示Hack记录而不是提交记录')
+      .option('--friends', '只显示好友和自己的记录（需要 API key）')
+      .option('--format <format>', '输出格式 (table|json)', 'table')
+      .action(async (contestArg, options) => {
+        try {
+          const { contestId: contestIdNum } = parseContestOrExit(contestArg);
+          const count = parseInt(options.count);
+          if (isNaN(count) || count <= 0) {
+            console.error('显示数量必须是正整数');
+            process.exit(1);
+          }
+
+          const api = new CodeforcesAPI();
+          const handles = options.friends ? await api.getFriendHandles() : undefined;
+
+          if (options.hacks) {
+            if (options.lang) {
+              console.error('Hack记录不支持按语言筛选');
+              process.exit(1);
+            }
+            console.log(`正在获取竞赛 ${contestArg} 的Hack记录...`);
+            const hacks = await api.getContestHacks(contestIdNum, {
+              handle: options.handle,
+              handles,
+              problemIndex: options.problem,
+              verdict: options.verdict
+            });
+
+            if (options.format === 'json') {
+              console.log(JSON.stringify(hacks.slice(0, count), null, 2));
+              return;
+            }
+            if (hacks.length === 0) {
+              console.log('没有找到符合条件的Hack记录');
+              return;
+            }
+            formatHacksTable(hacks.slice(0, count));
+            const successful = hacks.filter(hack => hack.verdict === 'HACK_SUCCESSFUL').length;
+            console.log(`\n共 ${hacks.length} 条Hack记录，其中成功 ${successful} 条${hacks.length > count ? `，显示前 ${count} 条` : ''}`);
+            return;
+          }
+
+          console.log(`正在获取竞赛 ${contestArg} 的提交记录...`);
+          const { submissions, hasMore, scanned, scanLimitReached } = await api.findContestSubmissions(contestIdNum, {
+            handle: options.handle,
+            handles,
+            problemIndex: options.problem,
+            verdict: options.verdict,
+            language: options.lang
+          }, count);
+
+          if (options.format === 'json') {
+            console.log(JSON.stringify(submissions, null, 2));
+            return;
+          }
+          if (submissions.length === 0) {
+            console.log(scanLimitReached ? `在最新的 ${scanned} 条提交中没有找到符合条件的提交记录` : '没有找到符合条件的提交记录');
+            return;
+          }
+          formatStatusTable(submissions);
+          const accepted = submissions.filter(submission => submission.verdict === 'OK').length;
+          if (hasMore) {
+            console.log(`\n显示最新的 ${submissions.length} 条提交，其中通过 ${accepted} 条（可用 --count 显示更多）`);
+          } else if (scanLimitReached) {
+            console.log(`\n在最新的 ${scanned} 条提交中找到 ${submissions.length} 条，其中通过 ${accepted} 条`);
+          } else {
+            console.log(`\n共 ${submissions.length} 条提交，其中通过 ${accepted} 条`);
+          }
+        } catch (error: any) {
+          console.error('获取竞赛提交记录失败:', error.message);
+          process.exit(1);
+        }
+      })
+  )
   .addCommand(
     new Command('problems')
       .description('获取竞赛题目列表')
-      .argument('<contestId>', '竞赛ID')
+      .argument('<contest>', '比赛，如 1234、gym:102345、group:abc/contest/123')
       .option('--format <format>', '输出格式 (table|json)', 'table')
-      .action(async (contestId, options) => {
+      .action(async (contestArg, options) => {
         try {
-          console.log(`正在获取竞赛 ${contestId} 的题目列表...`);
+          const { contestId } = parseContestOrExit(contestArg);
+          console.log(`正在获取竞赛 ${contestArg} 的题目列表...`);
           
           const api = new CodeforcesAPI();
-          const problems = await api.getContestProblems(parseInt(contestId));
+          const problems = await api.getContestProblems(contestId);
           
           if (options.format === 'json') {
             console.log(JSON.stringify(problems, null, 2));
@@ -216,24 +556,112 @@ export const contestCommand = new Command('contest')
         }
       })
   )
+  .addCommand(
+    new Command('wait')
+      .description('等待比赛开始并显示倒计时，开始后立即创建竞赛工作区')
+      .argument('<contest>', '比赛，如 1234、gym:102345（不支持小组比赛）')
+      .option('-o, --output <dir>', '工作区所在目录', '.')
+      .option('-l, --lang <extension>', '源文件语言扩展名 (cpp|c|java|py|rs|go)', 'cpp')
+      .option('-t, --template <name>', '源文件使用的模板名称，语言由模板决定')
+      .option('--locale <locale>', '题面语言 (en|ru)', 'en')
+      .option('--no-parse', '比赛开始时只提示，不创建工作区')
+      .action(async (contestArg, options) => {
+        try {
+          const ref = parseContestOrExit(contestArg);
+
+          // 小组比赛不在竞赛列表中，无法获取开始时间
+          if (ref.groupId) {
+            console.error('不支持等待小组比赛：小组比赛不在竞赛列表中，无法获取开始时间。比赛开始后可使用 cf parse 创建工作区');
+            process.exit(1);
+          }
+
+          // 提前检查语言和模板，避免比赛开始时才报错
+          const source = options.parse ? resolveSourceOptions(options) : null;
+          const language = parseStatementLanguage(options.locale);
+          if (!language) {
+            console.error('题面语言只支持 en 或 ru');
+            process.exit(1);
+          }
+
+          const api = new CodeforcesAPI();
+          let contest = await fetchContest(api, ref);
+          if (!contest) {
+            console.error(`未找到竞赛 ${formatContestRef(ref)}`);
+            process.exit(1);
+          }
+
+          console.log(`竞赛: ${contest.name}`);
+          if (contest.startTimeSeconds) {
+            console.log(`开始时间: ${new Date(contest.startTimeSeconds * 1000).toLocaleString()}`);
+          }
+
+          if (contest.phase === 'BEFORE') {
+            contest = await waitForContestStart(api, ref, contest);
+            console.log('🚀 比赛开始!');
+          } else {
+            console.log(`比赛已经开始 (阶段: ${contest.phase})`);
+          }
+
+          if (!source) {
+            return;
+          }
+
+          // 比赛刚开始时题目列表可能还获取不到，稍后重试
+          for (let attempt = 1; ; attempt++) {
+            try {
+              await buildContestWorkspace(ref, {
+                output: options.output,
+                extension: source.extension,
+                template: source.template,
+                language,
+                useCache: false
+              });
+              break;
+            } catch (error: any) {
+              if (attempt >= WAIT_PARSE_ATTEMPTS) {
+                throw error;
+              }
+              console.log(`获取题目失败 (${error.message})，${WAIT_POLL_INTERVAL / 1000} 秒后重试...`);
+              await sleep(WAIT_POLL_INTERVAL);
+            }
+          }
+        } catch (error: any) {
+          console.error('等待比赛失败:', error.message);
+          process.exit(1);
+        }
+      })
+  )
   .addCommand(
     new Command('statements')
       .description('批量下载竞赛所有题面到文件夹')
-      .argument('<contestId>', '竞赛ID')
+      .argument('<contest>', '比赛，如 1234、gym:102345、group:abc/contest/123')
       .option('-o, --output <dir>', '输出目录', './statements')
       .option('-f, --format <format>', '输出格式 (html|markdown)', 'markdown')
-      .action(async (contestId, options) => {
+      .option('--lang <lang>', '题面语言 (en|ru)', 'en')
+      .option('--locale <locale>', '题面语言，同 --lang')
+      .option('--no-images', '不下载题面中的图片，保留原链接')
+      .option('--inline-images', '以 data URI 内嵌图片（仅HTML格式）')
+      .action(async (contestArg, options) => {
         try {
-          const contestIdNum = parseInt(contestId);
-          if (isNaN(contestIdNum)) {
-            console.error('比赛ID必须是数字');
+          const ref = parseContestOrExit(contestArg);
+          const contestId = ref.contestId;
+
+          const language = parseStatementLanguage(options.locale || options.lang);
+          if (!language) {
+            console.error('题面语言只支持 en 或 ru');
+            process.exit(1);
+          }
+
+          const format = options.format.toLowerCase() === 'html' ? StatementFormat.HTML : StatementFormat.MARKDOWN;
+          if (options.inlineImages && format !== StatementFormat.HTML) {
+            console.error('--inline-images 只能用于HTML格式，请同时指定 -f html');
             process.exit(1);
           }
 
-          console.log(`正在获取竞赛 ${contestId} 的题目列表...`);
+          console.log(`正在获取竞赛 ${formatContestRef(ref)} 的题目列表...`);
           
           const api = new CodeforcesAPI();
-          const problems = await api.getContestProblems(contestIdNum);
+          const problems = await api.getContestProblems(contestId);
           
           if (problems.length === 0) {
             console.log('该竞赛没有题目');
@@ -249,33 +677,45 @@ export const contestCommand = new Command('contest')
           console.log(`开始下载 ${problems.length} 道题目的题面...`);
           console.log(`输出目录: ${outputDir}`);
           
-          const format = options.format.toLowerCase() === 'html' ? StatementFormat.HTML : StatementFormat.MARKDOWN;
-          const extension = format === StatementFormat.HTML ? '.html' : '.md';
+          // 非英文题面的文件名带语言后缀，如 A-Sum.ru.md
+          const extension = `${language === 'en' ? '' : `.${language}`}${format === StatementFormat.HTML ? '.html' : '.md'}`;
           
           let successCount = 0;
           let failCount = 0;
           
-          for (const problem of problems) {
-            try {
-              console.log(`正在下载题目 ${problem.index}: ${problem.name}...`);
+          await api.withBrowserSession(async () => {
+            for (const problem of problems) {
+              try {
+                console.log(`正在下载题目 ${problem.index}: ${problem.name}...`);
               
-              const statement = await api.getProblemStatement(contestIdNum, problem.index);
-              const formattedStatement = api.formatProblemStatement(statement, format);
+                let statement = await api.getProblemStatement({ ...ref, index: problem.index }, true, language);
+                if (statement.language && statement.language !== language) {
+                  console.warn(`⚠️  题目 ${problem.index} 没有 ${language} 版本的题面，已保存 ${statement.language} 版本`);
+                }
+                if (options.images !== false) {
+                  const result = await localizeStatementImages(statement, { dir: outputDir, inline: options.inlineImages });
+                  statement = result.statement;
+                  for (const url of result.failed) {
+                    console.warn(`⚠️  图片下载失败，保留原链接: ${url}`);
+                  }
+                }
+                const formattedStatement = api.formatProblemStatement(statement, format);
               
-              const filename = `${problem.index}-${problem.name.replace(/[^a-zA-Z0-9\u4e00-\u9fa5]/g, '_')}${extension}`;
-              const filepath = path.join(outputDir, filename);
+                const filename = `${problem.index}-${problem.name.replace(/[^a-zA-Z0-9\u4e00-\u9fa5]/g, '_')}${extension}`;
+                const filepath = path.join(outputDir, filename);
               
-              fs.writeFileSync(filepath, formattedStatement, 'utf-8');
-              console.log(`✓ 已保存: ${filename}`);
-              successCount++;
+                fs.writeFileSync(filepath, formattedStatement, 'utf-8');
+                console.log(`✓ 已保存: ${filename}`);
+                successCount++;
               
-              // 添加延迟避免请求过于频繁
-              await new Promise(resolve => setTimeout(resolve, 1000));
-            } catch (error: any) {
-              console.error(`✗ 下载题目 ${problem.index} 失败: ${error.message}`);
-              failCount++;
+                // 添加延迟避免请求过于频繁
+                await new Promise(resolve => setTimeout(resolve, 1000));
+              } catch (error: any) {
+                console.error(`✗ 下载题目 ${problem.index} 失败: ${error.message}`);
+                failCount++;
+              }
             }
-          }
+          });
           
           console.log(`\n下载完成!`);
           console.log(`成功: ${successCount} 道题目`);
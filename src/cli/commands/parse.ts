@@ -0,0 +1,143 @@
+import { Command } from 'commander';
+import { codeforcesAPI } from '../../api/codeforces.js';
+import { ContestRef, ContestWorkspaceOptions, StatementFormat } from '../../types/index.js';
+import { parseContestRef, formatContestRef, parseStatementLanguage } from '../../utils/problem.js';
+import { createProblemWorkspace } from '../../utils/workspace.js';
+import { getSupportedExtensions } from '../../utils/runner.js';
+import { getTemplate } from '../../utils/template.js';
+import { allowsMultipleAnswers } from '../../utils/checker.js';
+import { localizeStatementImages } from '../../utils/assets.js';
+import * as path from 'path';
+
+/**
+ * 创建竞赛工作区：每道题一个目录，所有题面在同一个浏览器会话中抓取
+ * @param contest 比赛，可以是普通比赛、训练赛或小组比赛
+ * @returns 竞赛目录
+ */
+export async function buildContestWorkspace(contest: ContestRef, options: ContestWorkspaceOptions): Promise<string> {
+  console.log(`正在获取竞赛 ${formatContestRef(contest)} 的题目列表...`);
+  const problems = await codeforcesAPI.getContestProblems(contest.contestId);
+
+  const contestDir = path.resolve(options.output, contest.contestId.toString());
+  if (problems.length === 0) {
+    console.log('该竞赛没有题目');
+    return contestDir;
+  }
+
+  console.log(`工作区目录: ${contestDir}`);
+
+  let successCount = 0;
+  let failCount = 0;
+
+  await codeforcesAPI.withBrowserSession(async () => {
+    for (const problem of problems) {
+      try {
+        console.log(`正在解析题目 ${problem.index}: ${problem.name}...`);
+
+        const ref = { ...contest, index: problem.index };
+        const problemDir = path.join(contestDir, problem.index);
+        const fetched = await codeforcesAPI.getProblemStatement(ref, options.useCache, options.language);
+        if (options.language && fetched.language && fetched.language !== options.language) {
+          console.log(`! ${problem.index}: 没有 ${options.language} 版本的题面，已使用 ${fetched.language} 版本`);
+        }
+
+        // 图片保存到题目目录的 assets 中，statement.md 离线也能显示
+        const { statement, failed } = await localizeStatementImages(fetched, { dir: problemDir });
+        if (failed.length > 0) {
+          console.log(`! ${problem.index}: ${failed.length} 张图片下载失败，保留原链接`);
+        }
+        const markdown = codeforcesAPI.formatProblemStatement(statement, StatementFormat.MARKDOWN);
+        const url = codeforcesAPI.getProblemUrl(ref);
+
+        createProblemWorkspace(problemDir, ref, statement, markdown, options.extension, url, options.template);
+
+        if (statement.interactive) {
+          console.log(`! ${problem.index}: 交互题，样例未写入，测试时使用 --interactor 指定交互器，可编写 inN.txt 作为它的测试输入`);
+        } else {
+          if (statement.samples.length === 0) {
+            console.log(`! ${problem.index}: 未获取到样例`);
+          } else {
+            console.log(`✓ ${problem.index}: ${statement.samples.length} 组样例`);
+          }
+          if (allowsMultipleAnswers(statement.outputFormat)) {
+            console.log(`! ${problem.index}: 可能有多种正确答案，测试时可使用 --checker 指定检查器`);
+          }
+        }
+        successCount++;
+      } catch (error: any) {
+        console.error(`✗ 解析题目 ${problem.index} 失败: ${error.message}`);
+        failCount++;
+      }
+    }
+  });
+
+  console.log(`\n解析完成! 成功: ${successCount}，失败: ${failCount}`);
+  console.log(`进入题目目录后可直接运行 cf test 和 cf submit，例如:`);
+  console.log(`  cd ${path.join(contestDir, problems[0].index)} && cf test`);
+  return contestDir;
+}
+
+/**
+ * 解析比赛参数（1234、gym:102345、group:abc/contest/123 或比赛网址）
+ * 格式不正确时退出
+ */
+export function parseContestOrExit(input: string): ContestRef {
+  const contest = parseContestRef(input);
+  if (!contest) {
+    console.error('比赛格式不正确，例如：1234、gym:102345 或 group:abc/contest/123');
+    process.exit(1);
+  }
+  return contest;
+}
+
+/**
+ * 解析 --lang 和 --template 选项，得到源文件语言和模板内容
+ * 选项无效时退出
+ */
+export function resolveSourceOptions(options: { lang: string; template?: string }): { extension: string; template?: string } {
+  // 指定模板时使用模板的语言
+  const template = options.template ? getTemplate(options.template) : null;
+  if (options.template && !template) {
+    console.error(`模板 '${options.template}' 不存在，可使用 cf template list 查看`);
+    process.exit(1);
+  }
+
+  const extension = template ? template.language : options.lang.toLowerCase();
+  if (!getSupportedExtensions().includes(extension)) {
+    console.error(`不支持的语言: ${extension}（支持: ${getSupportedExtensions().join(', ')}）`);
+    process.exit(1);
+  }
+
+  return { extension, template: template?.content };
+}
+
+export const parseCommand = new Command('parse')
+  .description('创建竞赛工作区：每道题一个目录，包含样例、题面和源文件')
+  .argument('<contest>', '比赛，如 1234、gym:102345、group:abc/contest/123 或比赛网址')
+  .option('-o, --output <dir>', '工作区所在目录', '.')
+  .option('-l, --lang <extension>', '源文件语言扩展名 (cpp|c|java|py|rs|go)', 'cpp')
+  .option('-t, --template <name>', '源文件使用的模板名称，语言由模板决定；默认使用该语言的默认模板')
+  .option('--locale <locale>', '题面语言 (en|ru)', 'en')
+  .option('--no-cache', '不使用缓存，重新获取题面')
+  .action(async (contestArg, options) => {
+    try {
+      const contest = parseContestOrExit(contestArg);
+      const { extension, template } = resolveSourceOptions(options);
+      const language = parseStatementLanguage(options.locale);
+      if (!language) {
+        console.error('题面语言只支持 en 或 ru');
+        process.exit(1);
+      }
+
+      await buildContestWorkspace(contest, {
+        output: options.output,
+        extension,
+        template,
+        language,
+        useCache: options.cache !== false
+      });
+    } catch (error: any) {
+      console.error('创建竞赛工作区失败:', error.message);
+      process.exit(1);
+    }
+  });
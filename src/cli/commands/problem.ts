@@ -2,6 +2,8 @@ import { Command } from 'commander';
 import { CodeforcesAPI } from '../../api/codeforces.js';
 import { Problem, StatementFormat } from '../../types/index.js';
 import { formatTable, formatJson, formatDetail } from '../../utils/formatter.js';
+import { parseProblemRef, formatProblemRef, getProblemRef, parseStatementLanguage } from '../../utils/problem.js';
+import { localizeStatementImages } from '../../utils/assets.js';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -15,6 +17,7 @@ function formatProblem(problem: Problem, stats?: any): string {
   const solvedCount = stats?.solvedCount ? `Solved: ${stats.solvedCount}` : '';
   
   return `${contestInfo} - ${problem.index}: ${problem.name}\n` +
+         `Ref: ${formatProblemRef(getProblemRef(problem))}\n` +
          `Type: ${problem.type}\n` +
          `${rating}\n` +
          `${points}\n` +
@@ -31,7 +34,7 @@ function formatProblemTable(problems: Problem[], statistics?: any[]): void {
   console.log('='.repeat(120));
   
   problems.forEach((problem, index) => {
-    const contestId = problem.contestId?.toString() || 'PS';
+    const contestId = problem.contestId?.toString() || problem.problemsetName || 'PS';
     const name = problem.name.length > 38 ? problem.name.substring(0, 35) + '...' : problem.name;
     const rating = problem.rating?.toString() || 'N/A';
     const stats = statistics?.[index];
@@ -49,7 +52,13 @@ function formatProblemTable(problems: Problem[], statistics?: any[]): void {
     );
   });
   
-  console.log('='.repeat(120) + '\n');
+  console.log('='.repeat(120));
+  if (problems.length > 0) {
+    // 题库题目（如 acmsguru）没有比赛ID，需要写成 题库:编号
+    console.log(`查看题面: cf problem statement <Contest> <Index>，例如 cf problem statement ${formatProblemRef(getProblemRef(problems[0]))}\n`);
+  } else {
+    console.log('');
+  }
 }
 
 export const problemCommand = new Command('problem')
@@ -263,31 +272,48 @@ export const problemCommand = new Command('problem')
   .addCommand(
     new Command('statement')
       .description('获取题目题面')
-      .argument('<contestId>', '比赛ID')
-      .argument('<index>', '题目索引 (A, B, C, ...)')
+      .argument('<problem>', '题目，如 1234A、gym:102345/B、group:abc/contest/123/C；也可以写成比赛和题目编号两个参数，如 1234 A')
+      .argument('[index]', '题目索引 (A, B, C, ...)，第一个参数只给出比赛时使用')
       .option('-f, --format <format>', '输出格式 (html|markdown)', 'markdown')
+      .option('--lang <lang>', '题面语言 (en|ru)', 'en')
+      .option('--locale <locale>', '题面语言，同 --lang')
       .option('-o, --output <file>', '保存到文件')
       .option('--save', '保存到文件（与--output-dir配合使用）')
       .option('--output-dir <dir>', '输出目录')
       .option('--no-cache', '不使用缓存')
-      .action(async (contestId, index, options) => {
+      .option('--no-images', '保存时不下载题面中的图片，保留原链接')
+      .option('--inline-images', '以 data URI 内嵌图片（仅HTML格式）')
+      .action(async (problemArg, index, options) => {
         try {
-          const contestIdNum = parseInt(contestId);
-          if (isNaN(contestIdNum)) {
-            console.error('比赛ID必须是数字');
+          const problem = parseProblemRef(index ? `${problemArg}/${index}` : problemArg);
+          if (!problem) {
+            console.error('题目格式不正确，例如：1234A、1234 A、gym:102345/B 或 group:abc/contest/123/C');
+            process.exit(1);
+          }
+
+          const language = parseStatementLanguage(options.locale || options.lang);
+          if (!language) {
+            console.error('题面语言只支持 en 或 ru');
+            process.exit(1);
+          }
+
+          const format = options.format.toLowerCase() === 'html' ? StatementFormat.HTML : StatementFormat.MARKDOWN;
+          if (options.inlineImages && format !== StatementFormat.HTML) {
+            console.error('--inline-images 只能用于HTML格式，请同时指定 -f html');
             process.exit(1);
           }
 
-          console.log(`正在获取题目 ${contestId}${index} 的题面...`);
+          console.log(`正在获取题目 ${formatProblemRef(problem)} 的题面...`);
           
           const api = new CodeforcesAPI();
           const useCache = options.cache !== false; // --no-cache 参数会将options.cache设为false
-          const statement = await api.getProblemStatement(contestIdNum, index.toUpperCase(), useCache);
-          
-          const format = options.format.toLowerCase() === 'html' ? StatementFormat.HTML : StatementFormat.MARKDOWN;
-          const formattedStatement = api.formatProblemStatement(statement, format);
+          let statement = await api.getProblemStatement(problem, useCache, language);
+          if (statement.language && statement.language !== language) {
+            console.warn(`⚠️  该题没有 ${language} 版本的题面，已显示 ${statement.language} 版本`);
+          }
           
-          // 处理文件保存逻辑
+          // 处理文件保存逻辑，非英文题面的文件名带语言后缀，如 1234A.ru.md
+          const languageSuffix = language === 'en' ? '' : `.${language}`;
           let shouldSave = false;
           let outputPath = '';
           
@@ -298,15 +324,32 @@ export const problemCommand = new Command('problem')
           } else if (options.save && options.outputDir) {
             // 使用 --save 和 --output-dir 参数
             shouldSave = true;
-            const fileName = `${contestId}${index.toUpperCase()}.${format === StatementFormat.HTML ? 'html' : 'md'}`;
+            const fileName = `${problem.problemsetName || problem.contestId}${problem.index}${languageSuffix}.${format === StatementFormat.HTML ? 'html' : 'md'}`;
             outputPath = path.resolve(options.outputDir, fileName);
           } else if (options.save) {
             // 只有 --save 参数，使用默认目录
             shouldSave = true;
-            const fileName = `${contestId}${index.toUpperCase()}.${format === StatementFormat.HTML ? 'html' : 'md'}`;
+            const fileName = `${problem.problemsetName || problem.contestId}${problem.index}${languageSuffix}.${format === StatementFormat.HTML ? 'html' : 'md'}`;
             outputPath = path.resolve('statements', fileName);
           }
           
+          // 下载题面中的图片，保存的文件离线也能正常显示
+          if ((shouldSave && options.images !== false) || options.inlineImages) {
+            const result = await localizeStatementImages(statement, {
+              dir: path.dirname(outputPath),
+              inline: options.inlineImages
+            });
+            statement = result.statement;
+            if (result.downloaded > 0) {
+              console.log(`已${options.inlineImages ? '内嵌' : '下载'} ${result.downloaded} 张图片`);
+            }
+            for (const url of result.failed) {
+              console.warn(`⚠️  图片下载失败，保留原链接: ${url}`);
+            }
+          }
+
+          const formattedStatement = api.formatProblemStatement(statement, format);
+          
           if (shouldSave) {
             // 保存到文件
             const dir = path.dirname(outputPath);
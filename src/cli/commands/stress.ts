@@ -0,0 +1,155 @@
+import { Command } from 'commander';
+import { compileSource, runProgram, parseTimeLimit, formatDiff } from '../../utils/runner.js';
+import { createChecker, checkOutput, describeChecker } from '../../utils/checker.js';
+import { findProblemWorkspace, appendSample } from '../../utils/workspace.js';
+import { CompiledProgram, RunResult } from '../../types/index.js';
+
+// 反例输入过长时只显示前几行
+const MAX_PREVIEW_LINES = 20;
+
+/**
+ * 编译程序，失败时退出
+ */
+async function compileOrExit(file: string, role: string): Promise<CompiledProgram> {
+  console.log(`正在编译${role} ${file}...`);
+  const compiled = await compileSource(file);
+  if (!compiled.success) {
+    console.error(`${role}编译失败:`);
+    console.error(compiled.error);
+    process.exit(1);
+  }
+  return compiled.program!;
+}
+
+/**
+ * 运行失败时的原因，正常结束返回null
+ */
+function getFailure(result: RunResult): string | null {
+  if (result.timedOut) {
+    return `超时 (${result.timeMs}ms)`;
+  }
+  if (result.exitCode !== 0) {
+    return `运行错误，退出码: ${result.exitCode ?? result.signal}`;
+  }
+  return null;
+}
+
+/**
+ * 缩进显示文本，超过限制的行省略
+ */
+function preview(text: string): string {
+  const lines = text.trimEnd().split('\n');
+  const shown = lines.slice(0, MAX_PREVIEW_LINES).map(line => `    ${line}`);
+  if (lines.length > MAX_PREVIEW_LINES) {
+    shown.push(`    ... (共 ${lines.length} 行)`);
+  }
+  return shown.join('\n');
+}
+
+export const stressCommand = new Command('stress')
+  .description('对拍：用生成器构造数据，比较解法与暴力程序的输出，直到找到反例')
+  .argument('<solution>', '待测解法的代码文件')
+  .argument('<brute>', '暴力（正确）解法的代码文件')
+  .argument('<generator>', '数据生成器的代码文件，随机种子作为第一个命令行参数传入')
+  .option('-n, --iterations <count>', '最多测试组数', '1000')
+  .option('-s, --seed <seed>', '起始随机种子，每组递增1', '1')
+  .option('-t, --time-limit <ms>', '解法的时间限制（毫秒），默认使用题目工作区中的时间限制')
+  .option('--brute-time-limit <ms>', '暴力程序和生成器的时间限制（毫秒）', '10000')
+  .option('-c, --checker <mode>', '输出检查方式：exact、tokens、yesno、float[:误差]，或 testlib 风格检查器的源文件；默认使用题目工作区推断的方式')
+  .addHelpText('after', `
+找到反例后，输入和暴力程序的输出会保存为下一个 inN.txt/ansN.txt，
+在题目工作区中保存到题目目录（与样例放在一起），否则保存到当前目录。
+退出码：0 未找到反例，1 找到反例或发生错误`)
+  .action(async (solution, brute, generator, options) => {
+    try {
+      const iterations = parseInt(options.iterations);
+      const startSeed = parseInt(options.seed);
+      const bruteTimeLimit = parseInt(options.bruteTimeLimit);
+      if (isNaN(iterations) || isNaN(startSeed) || isNaN(bruteTimeLimit)) {
+        console.error('测试组数、随机种子和时间限制必须是数字');
+        process.exit(1);
+      }
+      const timeLimitOption = options.timeLimit !== undefined ? Number(options.timeLimit) : undefined;
+      if (timeLimitOption !== undefined && !(Number.isInteger(timeLimitOption) && timeLimitOption > 0)) {
+        console.error(`时间限制必须是正整数（毫秒）: ${options.timeLimit}`);
+        process.exit(1);
+      }
+
+      const workspace = findProblemWorkspace();
+      const timeLimit = timeLimitOption ?? parseTimeLimit(workspace?.meta.timeLimit ?? '');
+
+      const solutionProgram = await compileOrExit(solution, '解法');
+      const bruteProgram = await compileOrExit(brute, '暴力程序');
+      const generatorProgram = await compileOrExit(generator, '生成器');
+      const checker = await createChecker(options.checker || workspace?.meta.checker || 'tokens');
+
+      console.log(`\n开始对拍，共 ${iterations} 组，种子 ${startSeed} 起，时间限制: ${timeLimit}ms，检查方式: ${describeChecker(checker)}\n`);
+
+      const isTTY = process.stdout.isTTY;
+
+      for (let i = 0; i < iterations; i++) {
+        const seed = startSeed + i;
+
+        if (isTTY) {
+          process.stdout.write(`\r正在测试第 ${i + 1}/${iterations} 组 (seed=${seed})`);
+        }
+
+        const generated = await runProgram(generatorProgram, '', bruteTimeLimit, [seed.toString()]);
+        const generatorFailure = getFailure(generated);
+        if (generatorFailure) {
+          if (isTTY) process.stdout.write('\n');
+          console.error(`生成器在 seed=${seed} 时${generatorFailure}`);
+          if (generated.stderr) console.error(generated.stderr.trimEnd());
+          process.exit(1);
+        }
+        const input = generated.stdout;
+
+        const expected = await runProgram(bruteProgram, input, bruteTimeLimit);
+        const bruteFailure = getFailure(expected);
+        if (bruteFailure) {
+          if (isTTY) process.stdout.write('\n');
+          console.error(`暴力程序在 seed=${seed} 时${bruteFailure}`);
+          console.error('  输入:');
+          console.error(preview(input));
+          process.exit(1);
+        }
+
+        const actual = await runProgram(solutionProgram, input, timeLimit);
+        let failure = getFailure(actual);
+        if (!failure) {
+          const check = await checkOutput(checker, input, expected.stdout, actual.stdout);
+          failure = check.ok ? null : `输出不一致${check.message ? `（${check.message}）` : ''}`;
+        }
+
+        if (!failure) {
+          continue;
+        }
+
+        if (isTTY) process.stdout.write('\n');
+        console.log(`✗ 第 ${i + 1} 组 (seed=${seed}) 找到反例: ${failure}\n`);
+        console.log('  输入:');
+        console.log(preview(input));
+
+        if (actual.timedOut || actual.exitCode !== 0) {
+          if (actual.stderr) {
+            console.log('  错误输出:');
+            console.log(preview(actual.stderr));
+          }
+        } else {
+          console.log('  对比 (- 暴力, + 解法):');
+          console.log(formatDiff(expected.stdout, actual.stdout));
+        }
+
+        const saveDir = workspace ? workspace.dir : process.cwd();
+        const n = appendSample(saveDir, { input, output: expected.stdout });
+        console.log(`\n反例已保存为 in${n}.txt / ans${n}.txt (${saveDir})`);
+        process.exit(1);
+      }
+
+      if (isTTY) process.stdout.write('\n');
+      console.log(`✓ ${iterations} 组数据全部一致`);
+    } catch (error: any) {
+      console.error('对拍过程中发生错误:', error.message);
+      process.exit(1);
+    }
+  });
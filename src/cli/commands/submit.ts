@@ -1,6 +1,10 @@
 import { Command } from 'commander';
 import { codeforcesAPI } from '../../api/codeforces.js';
-import { SubmitCodeParams } from '../../types/index.js';
+import { getConfig } from '../../config/index.js';
+import { ProblemRef, SubmitCodeParams, Submission } from '../../types/index.js';
+import { formatProblemRef } from '../../utils/problem.js';
+import { resolveProblemTarget } from '../../utils/workspace.js';
+import { watchSubmission, formatSubmissionStatus, getVerdictExitCode, WATCH_TIMEOUT_EXIT_CODE } from '../../utils/verdict.js';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -53,29 +57,108 @@ function detectLanguage(filePath: string): number | undefined {
   }
 }
 
+/**
+ * 用户最新一次提交的ID，没有提交时返回0，获取失败时返回null
+ */
+async function getLatestSubmissionId(handle: string): Promise<number | null> {
+  try {
+    const submissions = await codeforcesAPI.getUserSubmissions(handle, 1, 1, false);
+    return submissions[0]?.id ?? 0;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * 跟踪提交的判题状态，返回进程退出码
+ */
+async function trackVerdict(
+  handle: string,
+  problem: ProblemRef,
+  submissionId: number | undefined,
+  afterId: number,
+  timeoutSeconds: number
+): Promise<number> {
+  const isTTY = process.stdout.isTTY;
+  let lastLine = '';
+
+  console.log('正在等待判题结果...');
+
+  const onUpdate = (submission: Submission) => {
+    const line = `[${submission.id}] ${formatSubmissionStatus(submission)}`;
+    if (line === lastLine) {
+      return;
+    }
+    if (isTTY) {
+      // 在同一行刷新状态
+      process.stdout.write(`\r${line.padEnd(lastLine.length)}`);
+    } else {
+      console.log(line);
+    }
+    lastLine = line;
+  };
+
+  const result = await watchSubmission({
+    handle,
+    contestId: problem.contestId,
+    problemIndex: problem.index,
+    submissionId,
+    afterId,
+    timeout: timeoutSeconds * 1000,
+    onUpdate
+  });
+
+  if (isTTY && lastLine) {
+    process.stdout.write('\n');
+  }
+
+  if (!result) {
+    console.error('未能在提交记录中找到本次提交');
+    return WATCH_TIMEOUT_EXIT_CODE;
+  }
+
+  if (!result.verdict || result.verdict === 'TESTING') {
+    console.error(`等待判题结果超时（${timeoutSeconds}秒）`);
+    return WATCH_TIMEOUT_EXIT_CODE;
+  }
+
+  console.log(`判题结果: ${formatSubmissionStatus(result)} (${result.timeConsumedMillis}ms, ${Math.round(result.memoryConsumedBytes / 1024)}KB)`);
+  console.log(`查看结果: ${codeforcesAPI.getSubmissionUrl(problem, result.id)}`);
+  return getVerdictExitCode(result.verdict);
+}
+
 export const submitCommand = new Command('submit')
   .description('提交代码到Codeforces')
-  .argument('<problem>', '题目ID，格式为[contestId][problemIndex]，例如：1000A 或 1000/A')
-  .argument('<file>', '代码文件路径')
+  .argument('[problem]', '题目，例如：1000A、1000/A、gym:102345/B、group:abc/contest/123/C；在题目工作区中可省略')
+  .argument('[file]', '代码文件路径；在题目工作区中可省略')
   .option('-l, --language <language>', '编程语言ID或简称，例如：cpp, python, java等')
-  .option('-g, --group <groupId>', '小组ID（如果是小组比赛）')
+  .option('-g, --group <groupId>', '小组ID（如果是小组比赛，也可以直接写成 group:abc/contest/123/C）')
+  .option('--no-watch', '提交后不等待判题结果')
+  .option('--watch-timeout <seconds>', '等待判题结果的最长时间（秒）', '300')
+  .addHelpText('after', `
+退出码（等待判题结果时）:
+  0 Accepted    2 Wrong answer    3 Time limit exceeded    4 Memory limit exceeded
+  5 Runtime error    6 Compilation error    7 其他未通过结果    8 等待超时
+  1 提交过程中发生错误`)
   .action(async (problem, file, options) => {
     try {
-      // 解析题目ID
-      let contestId: number;
-      let problemIndex: string;
-      
-      // 处理格式：1000A 或 1000/A
-      const match = problem.match(/^(\d+)([A-Za-z][0-9]*)$/) || problem.match(/^(\d+)\/?([A-Za-z][0-9]*)$/);
+      // 解析题目ID和代码文件，缺省时使用当前题目工作区
+      const target = resolveProblemTarget(problem, file);
       
-      if (!match) {
-        console.error('题目ID格式不正确，应为[contestId][problemIndex]，例如：1000A 或 1000/A');
+      const { contestId, index: problemIndex } = target;
+      const problemRef: ProblemRef = {
+        contestId,
+        index: problemIndex,
+        gym: target.gym,
+        groupId: options.group || target.groupId
+      };
+      file = target.file;
+
+      if (target.problemsetName) {
+        console.error(`题库 ${target.problemsetName} 中的题目不支持从命令行提交，请在网页中提交: ${codeforcesAPI.getProblemUrl(target)}`);
         process.exit(1);
       }
       
-      contestId = parseInt(match[1]);
-      problemIndex = match[2];
-      
       // 检查文件是否存在
       if (!fs.existsSync(file)) {
         console.error(`文件不存在: ${file}`);
@@ -110,27 +193,47 @@ export const submitCommand = new Command('submit')
         programTypeId = detectedId;
       }
       
-      console.log(`正在提交题目 ${contestId}${problemIndex}...`);
+      console.log(`正在提交题目 ${formatProblemRef(problemRef)}...`);
       
       const params: SubmitCodeParams = {
         contestId,
         problemIndex,
         programTypeId,
         source,
+        gym: problemRef.gym,
+        groupId: problemRef.groupId
       };
       
-      // 如果有小组ID
-      if (options.group) {
-        params.groupId = options.group;
-      }
-      
+      // 提交前最新的提交ID，提交响应中没有ID时只匹配比它新的提交，避免匹配到刚才的同题提交
+      const handle = getConfig().handle;
+      const afterId = options.watch && handle ? await getLatestSubmissionId(handle) : 0;
       const result = await codeforcesAPI.submitCode(params);
       
       if (result.success) {
         console.log(`提交成功！`);
         if (result.submissionId) {
           console.log(`提交ID: ${result.submissionId}`);
-          console.log(`查看结果: https://codeforces.com/contest/${contestId}/submission/${result.submissionId}`);
+        }
+        
+        // 既没有提交ID也不知道提交前的最新ID时，无法可靠地找到本次提交
+        if (options.watch && handle && (result.submissionId || afterId !== null)) {
+          const exitCode = await trackVerdict(
+            handle,
+            problemRef,
+            result.submissionId,
+            afterId ?? 0,
+            parseInt(options.watchTimeout)
+          );
+          process.exit(exitCode);
+        }
+        
+        if (options.watch && handle) {
+          console.log('获取提交记录失败，无法跟踪判题结果');
+        } else if (options.watch) {
+          console.log('未找到当前登录用户，无法跟踪判题结果，请先使用 auth login 登录');
+        }
+        if (result.submissionId) {
+          console.log(`查看结果: ${codeforcesAPI.getSubmissionUrl(problemRef, result.submissionId)}`);
         } else {
           console.log('提交已接受，但未获取到提交ID');
         }
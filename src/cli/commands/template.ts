@@ -0,0 +1,152 @@
+import { Command } from 'commander';
+import { getConfig } from '../../config/index.js';
+import {
+  getTemplates,
+  getTemplate,
+  saveTemplate,
+  removeTemplate,
+  renderTemplate,
+  buildTemplateVariables,
+  TEMPLATE_PLACEHOLDERS
+} from '../../utils/template.js';
+import { findProblemWorkspace, getSourceFileName } from '../../utils/workspace.js';
+import { getSupportedExtensions, normalizeExtension } from '../../utils/runner.js';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const templateCommand = new Command('template')
+  .description('源文件模板管理命令')
+  .addHelpText('after', `
+模板中可使用的占位符: ${TEMPLATE_PLACEHOLDERS.map(name => `{{${name}}}`).join(' ')}`)
+  .addCommand(
+    new Command('add')
+      .description('从文件添加模板（同名模板会被覆盖）')
+      .argument('<name>', '模板名称，如 cpp-default')
+      .argument('<file>', '模板文件路径')
+      .option('-l, --lang <extension>', '模板语言扩展名，默认使用文件扩展名')
+      .option('-d, --default', '设为该语言的默认模板')
+      .action((name, file, options) => {
+        try {
+          if (!fs.existsSync(file)) {
+            console.error(`文件不存在: ${file}`);
+            process.exit(1);
+          }
+
+          const extension = (options.lang || path.extname(file).substring(1)).toLowerCase();
+          if (!getSupportedExtensions().includes(extension)) {
+            console.error(`不支持的语言: ${extension}（支持: ${getSupportedExtensions().join(', ')}）`);
+            process.exit(1);
+          }
+          // 按语言保存，main.cc 的默认模板与 cpp 共用
+          const language = normalizeExtension(extension);
+
+          const content = fs.readFileSync(file, 'utf-8');
+          saveTemplate(name, { language, content }, !!options.default);
+
+          console.log(`模板 '${name}' (${language}) 已保存${options.default ? '，并设为默认模板' : ''}`);
+        } catch (error: any) {
+          console.error('添加模板失败:', error.message);
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('list')
+      .description('列出所有模板')
+      .action(() => {
+        const templates = getTemplates();
+        const defaults = getConfig().defaultTemplates || {};
+        const names = Object.keys(templates).sort();
+
+        if (names.length === 0) {
+          console.log('还没有模板，使用 cf template add <name> <file> 添加');
+          return;
+        }
+
+        console.log('\n' + '='.repeat(60));
+        console.log('Name'.padEnd(24) + 'Language'.padEnd(12) + 'Lines'.padEnd(10) + 'Default');
+        console.log('='.repeat(60));
+
+        names.forEach(name => {
+          const template = templates[name];
+          const isDefault = defaults[template.language] === name;
+          console.log(
+            name.padEnd(24) +
+            template.language.padEnd(12) +
+            template.content.trimEnd().split('\n').length.toString().padEnd(10) +
+            (isDefault ? '✓' : '')
+          );
+        });
+
+        console.log('='.repeat(60));
+        console.log(`\n共 ${names.length} 个模板`);
+      })
+  )
+  .addCommand(
+    new Command('show')
+      .description('显示模板内容')
+      .argument('<name>', '模板名称')
+      .option('-r, --render', '使用当前题目工作区的信息替换占位符')
+      .action((name, options) => {
+        const template = getTemplate(name);
+        if (!template) {
+          console.error(`模板 '${name}' 不存在`);
+          process.exit(1);
+        }
+
+        if (options.render) {
+          const workspace = findProblemWorkspace();
+          console.log(renderTemplate(template.content, buildTemplateVariables(workspace?.meta)));
+        } else {
+          console.log(template.content);
+        }
+      })
+  )
+  .addCommand(
+    new Command('remove')
+      .description('删除模板')
+      .argument('<name>', '模板名称')
+      .action((name) => {
+        try {
+          if (!removeTemplate(name)) {
+            console.error(`模板 '${name}' 不存在`);
+            process.exit(1);
+          }
+          console.log(`模板 '${name}' 已删除`);
+        } catch (error: any) {
+          console.error('删除模板失败:', error.message);
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('new')
+      .description('使用模板创建新的源文件，在题目工作区中会填入题目信息')
+      .argument('<name>', '模板名称')
+      .argument('[file]', '源文件路径，默认为 main.<扩展名>')
+      .option('-f, --force', '覆盖已存在的文件')
+      .action((name, file, options) => {
+        try {
+          const template = getTemplate(name);
+          if (!template) {
+            console.error(`模板 '${name}' 不存在`);
+            process.exit(1);
+          }
+
+          const outputPath = path.resolve(file || getSourceFileName(template.language));
+          if (fs.existsSync(outputPath) && !options.force) {
+            console.error(`文件已存在: ${outputPath}（使用 --force 覆盖）`);
+            process.exit(1);
+          }
+
+          const workspace = findProblemWorkspace(path.dirname(outputPath));
+          const content = renderTemplate(template.content, buildTemplateVariables(workspace?.meta));
+          fs.writeFileSync(outputPath, content, 'utf-8');
+
+          console.log(`已创建: ${outputPath}`);
+        } catch (error: any) {
+          console.error('创建源文件失败:', error.message);
+          process.exit(1);
+        }
+      })
+  );
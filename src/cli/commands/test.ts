@@ -0,0 +1,231 @@
+import { Command } from 'commander';
+import { codeforcesAPI } from '../../api/codeforces.js';
+import { compileSource, runProgram, parseTimeLimit, formatDiff } from '../../utils/runner.js';
+import { createChecker, checkOutput, detectCheckerMode, describeChecker, allowsMultipleAnswers } from '../../utils/checker.js';
+import { resolveProblemTarget, loadWorkspaceSamples, loadInteractorTests } from '../../utils/workspace.js';
+import { formatProblemRef } from '../../utils/problem.js';
+import { runInteraction, formatTranscript } from '../../utils/interactor.js';
+import { Checker, CheckResult, CompiledProgram, InteractionResult, RunResult, Sample } from '../../types/index.js';
+import * as fs from 'fs';
+
+// 测试失败时显示的交互过程行数
+const TRANSCRIPT_TAIL_LINES = 20;
+
+/**
+ * 根据运行结果判定状态
+ */
+async function getVerdict(result: RunResult, sample: Sample, checker: Checker): Promise<{ verdict: string; check?: CheckResult }> {
+  if (result.timedOut) {
+    return { verdict: 'TLE' };
+  }
+  if (result.exitCode !== 0) {
+    return { verdict: 'RE' };
+  }
+  const check = await checkOutput(checker, sample.input + '\n', sample.output + '\n', result.stdout);
+  return { verdict: check.ok ? 'PASS' : 'FAIL', check };
+}
+
+/**
+ * 根据交互结果判定状态：交互器退出码非0表示答案错误
+ */
+function getInteractionVerdict(result: InteractionResult): string {
+  if (result.timedOut) {
+    return 'TLE';
+  }
+  if (result.solution.exitCode !== 0) {
+    return 'RE';
+  }
+  return result.interactor.exitCode === 0 ? 'PASS' : 'FAIL';
+}
+
+/**
+ * 使用交互器测试交互题，返回通过的测试数
+ * @param transcriptFile 保存全部交互过程记录的文件
+ */
+async function testInteractive(
+  solution: CompiledProgram,
+  interactor: CompiledProgram,
+  tests: Sample[],
+  timeLimit: number,
+  transcriptFile?: string
+): Promise<number> {
+  let passedCount = 0;
+  const logs: string[] = [];
+
+  for (let i = 0; i < tests.length; i++) {
+    const test = tests[i];
+    const result = await runInteraction(solution, interactor, test.input + '\n', test.output ? test.output + '\n' : '', timeLimit);
+    const verdict = getInteractionVerdict(result);
+
+    console.log(`${verdict === 'PASS' ? '✓' : '✗'} 测试 ${i + 1}: ${verdict} (${result.solution.timeMs}ms)`);
+    logs.push(`=== 测试 ${i + 1}: ${verdict} ===`, formatTranscript(result.transcript), '');
+
+    if (verdict === 'PASS') {
+      passedCount++;
+      continue;
+    }
+
+    if (verdict === 'RE') {
+      console.log(`  退出码: ${result.solution.exitCode ?? result.solution.signal}`);
+      if (result.solution.stderr) {
+        console.log(result.solution.stderr.trimEnd().split('\n').map(line => `  ${line}`).join('\n'));
+      }
+    } else if (verdict === 'FAIL') {
+      const message = result.interactor.stderr.trim() || `交互器退出码: ${result.interactor.exitCode ?? result.interactor.signal}`;
+      console.log(`  ${message}`);
+    }
+    if (result.transcript.length > 0) {
+      console.log('  交互过程 (> 解答输出, < 交互器输出):');
+      console.log(formatTranscript(result.transcript, TRANSCRIPT_TAIL_LINES).split('\n').map(line => `    ${line}`).join('\n'));
+    }
+    console.log('');
+  }
+
+  if (transcriptFile) {
+    fs.writeFileSync(transcriptFile, logs.join('\n'), 'utf-8');
+    console.log(`交互过程已保存到: ${transcriptFile}`);
+  }
+  return passedCount;
+}
+
+export const testCommand = new Command('test')
+  .description('使用题目样例在本地测试代码')
+  .argument('[problem]', '题目，例如：1000A、1000/A、gym:102345/B、group:abc/contest/123/C；在题目工作区中可省略')
+  .argument('[file]', '代码文件路径；在题目工作区中可省略')
+  .option('-t, --time-limit <ms>', '每个样例的时间限制（毫秒），默认使用题面中的时间限制')
+  .option('-c, --checker <mode>', '输出检查方式：exact、tokens、yesno、float[:误差]，或 testlib 风格检查器的源文件；默认根据题面推断')
+  .option('-i, --interactor <file>', '交互题的交互器源文件（interactor <input> <output> <answer>，退出码0为通过）')
+  .option('--input <files...>', '交互器的测试输入文件（与 --interactor 配合使用）；在题目工作区中默认使用 inN.txt')
+  .option('--transcript <file>', '保存交互过程记录到文件（与 --interactor 配合使用）')
+  .option('--no-cache', '不使用缓存，重新获取题面（不在题目工作区中时）')
+  .action(async (problem, file, options) => {
+    try {
+      const timeLimitOption = options.timeLimit !== undefined ? Number(options.timeLimit) : undefined;
+      if (timeLimitOption !== undefined && !(Number.isInteger(timeLimitOption) && timeLimitOption > 0)) {
+        console.error(`时间限制必须是正整数（毫秒）: ${options.timeLimit}`);
+        process.exit(1);
+      }
+
+      // 解析题目ID和代码文件，缺省时使用当前题目工作区
+      const target = resolveProblemTarget(problem, file);
+
+      const { workspace } = target;
+
+      console.log(`正在编译 ${target.file}...`);
+      const compiled = await compileSource(target.file);
+      if (!compiled.success) {
+        console.error('编译失败:');
+        console.error(compiled.error);
+        process.exit(1);
+      }
+
+      // 在题目工作区中使用本地样例文件，否则从题面获取
+      let samples: Sample[];
+      let statementTimeLimit: string;
+      let detectedChecker: string;
+      let interactive: boolean;
+      if (workspace) {
+        samples = loadWorkspaceSamples(workspace.dir);
+        statementTimeLimit = workspace.meta.timeLimit;
+        detectedChecker = workspace.meta.checker || 'tokens';
+        interactive = !!workspace.meta.interactive;
+        console.log(`使用工作区 ${workspace.dir} 中的 ${samples.length} 组样例`);
+      } else {
+        console.log(`正在获取题目 ${formatProblemRef(target)} 的样例...`);
+        const statement = await codeforcesAPI.getProblemStatement(target, options.cache !== false);
+        samples = statement.samples;
+        statementTimeLimit = statement.timeLimit;
+        detectedChecker = detectCheckerMode(statement.outputFormat);
+        interactive = !!statement.interactive;
+        if (!interactive && !options.checker && allowsMultipleAnswers(statement.outputFormat)) {
+          console.log('提示: 该题可能有多种正确答案，可使用 --checker 指定检查器');
+        }
+      }
+
+      // 题面时间限制无法解析时使用2秒
+      const timeLimit = timeLimitOption ?? parseTimeLimit(statementTimeLimit);
+
+      // 交互题：题面样例是交互过程，不能作为交互器的输入
+      // 使用 --input 指定的文件或工作区中用户编写的 inN.txt，都没有时以空输入运行一次
+      if (options.interactor) {
+        const interactor = await compileSource(options.interactor);
+        if (!interactor.success) {
+          console.error('交互器编译失败:');
+          console.error(interactor.error);
+          process.exit(1);
+        }
+        let tests: Sample[];
+        if (options.input) {
+          tests = (options.input as string[]).map(file => ({ input: fs.readFileSync(file, 'utf-8').trimEnd(), output: '' }));
+        } else {
+          tests = workspace ? loadInteractorTests(workspace.dir) : [];
+        }
+        if (tests.length === 0) {
+          console.log('没有交互器的测试输入（可用 --input 指定，或在题目工作区中编写 inN.txt），以空输入运行一次');
+          tests = [{ input: '', output: '' }];
+        }
+        console.log(`语言: ${compiled.program!.language}，时间限制: ${timeLimit}ms，交互器: ${options.interactor}\n`);
+
+        const passedCount = await testInteractive(compiled.program!, interactor.program!, tests, timeLimit, options.transcript);
+        console.log(`\n通过 ${passedCount}/${tests.length} 个测试`);
+        if (passedCount !== tests.length) {
+          process.exit(1);
+        }
+        return;
+      }
+
+      if (interactive) {
+        console.error('这是一道交互题，样例不能直接用于测试，请使用 --interactor 指定交互器');
+        process.exit(1);
+      }
+
+      const checker = await createChecker(options.checker || detectedChecker);
+
+      if (samples.length === 0) {
+        console.error('该题目没有可用的样例');
+        process.exit(1);
+      }
+
+      console.log(`语言: ${compiled.program!.language}，时间限制: ${timeLimit}ms，检查方式: ${describeChecker(checker)}\n`);
+
+      let passedCount = 0;
+
+      for (let i = 0; i < samples.length; i++) {
+        const sample = samples[i];
+        const result = await runProgram(compiled.program!, sample.input + '\n', timeLimit);
+        const { verdict, check } = await getVerdict(result, sample, checker);
+
+        console.log(`${verdict === 'PASS' ? '✓' : '✗'} 样例 ${i + 1}: ${verdict} (${result.timeMs}ms)`);
+
+        if (verdict === 'PASS') {
+          passedCount++;
+          continue;
+        }
+
+        if (verdict === 'RE') {
+          console.log(`  退出码: ${result.exitCode ?? result.signal}`);
+          if (result.stderr) {
+            console.log(result.stderr.trimEnd().split('\n').map(line => `  ${line}`).join('\n'));
+          }
+        } else if (verdict === 'FAIL') {
+          if (check?.message) {
+            console.log(`  ${check.message}`);
+          }
+          console.log('  输入:');
+          console.log(sample.input.split('\n').map(line => `    ${line}`).join('\n'));
+          console.log('  对比 (- 期望, + 实际):');
+          console.log(formatDiff(sample.output, result.stdout));
+        }
+        console.log('');
+      }
+
+      console.log(`\n通过 ${passedCount}/${samples.length} 个样例`);
+
+      if (passedCount !== samples.length) {
+        process.exit(1);
+      }
+    } catch (error: any) {
+      console.error('本地测试过程中发生错误:', error.message);
+      process.exit(1);
+    }
+  });
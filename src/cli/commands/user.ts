@@ -1,6 +1,17 @@
 import { Command } from 'commander';
-import { codeforcesAPI } from '../../api/codeforces.js';
-import { User, Submission } from '../../types/index.js';
+import { codeforcesAPI, htmlToMarkdown } from '../../api/codeforces.js';
+import { User, Submission, RatingChange, UserSortField, RecentAction } from '../../types/index.js';
+import { formatSubmissionStatus } from '../../utils/verdict.js';
+import { colorByRating, getRankName, renderRatingChart } from '../../utils/rank.js';
+import { formatDelta } from '../../utils/rating.js';
+import { filterUsers, sortUsers } from '../../utils/filter.js';
+
+// 排行榜可用的排序字段，键为小写形式
+const SORT_FIELDS: Record<string, UserSortField> = {
+  rating: 'rating',
+  maxrating: 'maxRating',
+  contribution: 'contribution'
+};
 
 /**
  * 格式化用户信息
@@ -79,6 +90,91 @@ function formatSubmissionTable(submissions: Submission[]): void {
   console.log('='.repeat(120) + '\n');
 }
 
+// 动态中的一条记录：提交、博客或评论
+interface FeedItem {
+  timeSeconds: number;
+  handle: string;
+  text: string;
+}
+
+/**
+ * 提交记录对应的动态，如 ✓ 2000A Sum of Two · Accepted (Python 3)
+ */
+function submissionFeedItem(handle: string, submission: Submission): FeedItem {
+  const problem = `${submission.problem.contestId ?? ''}${submission.problem.index} ${submission.problem.name}`;
+  return {
+    timeSeconds: submission.creationTimeSeconds,
+    handle,
+    text: `${submission.verdict === 'OK' ? '✓' : '✗'} ${problem} · ${formatSubmissionStatus(submission)} (${submission.programmingLanguage})`
+  };
+}
+
+/**
+ * 博客或评论对应的动态
+ */
+function recentActionFeedItem(action: RecentAction): FeedItem | null {
+  const title = action.blogEntry ? htmlToMarkdown(action.blogEntry.title).replace(/\s+/g, ' ').trim() : '';
+  if (action.comment) {
+    return { timeSeconds: action.timeSeconds, handle: action.comment.commentatorHandle, text: `💬 评论了《${title}》 (${action.blogEntry?.id}#${action.comment.id})` };
+  }
+  if (action.blogEntry) {
+    return { timeSeconds: action.timeSeconds, handle: action.blogEntry.authorHandle, text: `📝 发表了博客《${title}》 (${action.blogEntry.id})` };
+  }
+  return null;
+}
+
+/**
+ * 格式化排行榜为表格，用户名按积分着色
+ * @param offset 第一行的名次减一
+ */
+function formatLeaderboardTable(users: User[], offset: number): void {
+  console.log('\n' + '='.repeat(110));
+  console.log('#'.padEnd(7) + 'Handle'.padEnd(24) + 'Rating'.padEnd(8) + 'Max'.padEnd(8) + 'Contrib'.padEnd(9) + 'Country'.padEnd(16) + 'Organization');
+  console.log('='.repeat(110));
+
+  users.forEach((user, i) => {
+    const rating = user.rating ?? 0;
+    const organization = user.organization || '';
+    console.log(
+      (offset + i + 1).toString().padEnd(7) +
+      colorByRating(user.handle.padEnd(24), rating) +
+      rating.toString().padEnd(8) +
+      (user.maxRating ?? 0).toString().padEnd(8) +
+      user.contribution.toString().padEnd(9) +
+      (user.country || 'N/A').padEnd(16) +
+      (organization.length > 35 ? organization.substring(0, 32) + '...' : organization)
+    );
+  });
+
+  console.log('='.repeat(110) + '\n');
+}
+
+/**
+ * 格式化积分记录为表格
+ */
+function formatRatingTable(changes: RatingChange[]): void {
+  console.log('\n' + '='.repeat(110));
+  console.log('#'.padEnd(5) + 'Contest'.padEnd(50) + 'Date'.padEnd(14) + 'Rank'.padEnd(8) + 'Old'.padEnd(8) + 'New'.padEnd(8) + 'Δ');
+  console.log('='.repeat(110));
+
+  changes.forEach((change, index) => {
+    const name = change.contestName.length > 48 ? change.contestName.substring(0, 45) + '...' : change.contestName;
+    const date = new Date(change.ratingUpdateTimeSeconds * 1000).toLocaleDateString();
+
+    console.log(
+      (index + 1).toString().padEnd(5) +
+      name.padEnd(50) +
+      date.padEnd(14) +
+      change.rank.toString().padEnd(8) +
+      change.oldRating.toString().padEnd(8) +
+      colorByRating(change.newRating.toString().padEnd(8), change.newRating) +
+      formatDelta(change.newRating - change.oldRating)
+    );
+  });
+
+  console.log('='.repeat(110));
+}
+
 export const userCommand = new Command('user')
   .description('用户相关命令')
   .addCommand(
@@ -176,6 +272,52 @@ export const userCommand = new Command('user')
         }
       })
   )
+  .addCommand(
+    new Command('rating')
+      .description('获取用户的积分变化记录，并绘制积分折线图')
+      .argument('<handle>', '用户名')
+      .option('--format <format>', '输出格式 (table|json)', 'table')
+      .option('--no-chart', '不显示积分折线图')
+      .option('--height <number>', '折线图高度（行数）', '16')
+      .action(async (handle, options) => {
+        try {
+          console.log(`正在获取用户 ${handle} 的积分记录...`);
+
+          const changes = await codeforcesAPI.getUserRating(handle);
+
+          if (options.format === 'json') {
+            console.log(JSON.stringify(changes, null, 2));
+            return;
+          }
+
+          if (changes.length === 0) {
+            console.log('该用户还没有参加过计分比赛');
+            return;
+          }
+
+          formatRatingTable(changes);
+
+          if (options.chart) {
+            const ratings = changes.map(change => change.newRating);
+            const height = Math.max(4, parseInt(options.height) || 16);
+            console.log('');
+            renderRatingChart(ratings, height).forEach(line => console.log(line));
+            const firstDate = new Date(changes[0].ratingUpdateTimeSeconds * 1000).toLocaleDateString();
+            const lastDate = new Date(changes[changes.length - 1].ratingUpdateTimeSeconds * 1000).toLocaleDateString();
+            console.log(`       ${firstDate} ~ ${lastDate}`);
+          }
+
+          const current = changes[changes.length - 1].newRating;
+          const max = Math.max(...changes.map(change => change.newRating));
+          console.log(`\n共 ${changes.length} 场计分比赛`);
+          console.log(`当前积分: ${colorByRating(`${current} (${getRankName(current)})`, current)}`);
+          console.log(`最高积分: ${colorByRating(`${max} (${getRankName(max)})`, max)}`);
+        } catch (error: any) {
+          console.error('获取积分记录失败:', error.message);
+          process.exit(1);
+        }
+      })
+  )
   .addCommand(
     new Command('stats')
       .description('获取用户统计信息')
@@ -259,4 +401,115 @@ export const userCommand = new Command('user')
           process.exit(1);
         }
       })
-  );
\ No newline at end of file
+  )
+  .addCommand(
+    new Command('leaderboard')
+      .description('计分用户排行榜，可按国家、城市和组织筛选')
+      .option('--country <country>', '按国家筛选 (例: China)')
+      .option('--city <city>', '按城市筛选')
+      .option('--org <organization>', '按组织筛选，匹配名称中的一部分 (例: ITMO)')
+      .option('-s, --sort <field>', '排序字段 (rating|maxRating|contribution)', 'rating')
+      .option('-p, --page <number>', '页码', '1')
+      .option('--page-size <number>', '每页人数', '50')
+      .option('--all', '包括最近一个月没有参加计分比赛的用户')
+      .option('--include-retired', '包括很久没有上线的用户（与 --all 配合使用）')
+      .option('-f, --format <format>', '输出格式 (table|json)', 'table')
+      .action(async (options) => {
+        try {
+          const sortField = SORT_FIELDS[options.sort.toLowerCase().replace(/[-_]/g, '')];
+          if (!sortField) {
+            console.error(`未知的排序字段: ${options.sort}（可选 rating、maxRating、contribution）`);
+            process.exit(1);
+          }
+          const pageSize = Math.max(1, parseInt(options.pageSize) || 50);
+
+          console.log('正在获取计分用户列表...');
+          const ratedUsers = await codeforcesAPI.getRatedList(!options.all, !!options.includeRetired);
+          const users = sortUsers(filterUsers(ratedUsers, {
+            country: options.country,
+            city: options.city,
+            organization: options.org
+          }), sortField);
+
+          if (users.length === 0) {
+            console.log('没有符合条件的用户');
+            return;
+          }
+
+          const totalPages = Math.ceil(users.length / pageSize);
+          const page = Math.min(Math.max(1, parseInt(options.page) || 1), totalPages);
+          const offset = (page - 1) * pageSize;
+          const pageUsers = users.slice(offset, offset + pageSize);
+
+          if (options.format === 'json') {
+            console.log(JSON.stringify(pageUsers, null, 2));
+            return;
+          }
+
+          formatLeaderboardTable(pageUsers, offset);
+          console.log(`第 ${page}/${totalPages} 页，共 ${users.length} 人（计分用户 ${ratedUsers.length} 人）`);
+          if (page < totalPages) {
+            console.log(`下一页: 加上 --page ${page + 1}`);
+          }
+        } catch (error: any) {
+          console.error('获取排行榜失败:', error.message);
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('feed')
+      .description('好友或指定用户的最近动态：提交记录、博客和评论')
+      .option('--friends', '好友和自己的动态（需要 API key）')
+      .option('-u, --users <users>', '指定用户名，用逗号分隔')
+      .option('-c, --count <number>', '显示数量', '30')
+      .option('--per-user <number>', '每个用户获取的最近提交数量', '10')
+      .option('--no-blogs', '不包括博客和评论')
+      .action(async (options) => {
+        try {
+          let handles: string[] = options.users ? options.users.split(',').map((u: string) => u.trim()).filter(Boolean) : [];
+          if (options.friends) {
+            handles = [...handles, ...await codeforcesAPI.getFriendHandles()];
+          }
+          if (handles.length === 0) {
+            console.error(options.friends ? '还没有好友，可以在 Codeforces 个人主页添加' : '请使用 --friends 或 --users 指定用户');
+            process.exit(1);
+          }
+
+          console.log(`正在获取 ${handles.length} 位用户的动态...`);
+          const items: FeedItem[] = [];
+          const perUser = parseInt(options.perUser);
+          for (const handle of handles) {
+            try {
+              const submissions = await codeforcesAPI.getUserSubmissions(handle, 1, perUser, true);
+              items.push(...submissions.map(submission => submissionFeedItem(handle, submission)));
+            } catch (error: any) {
+              console.warn(`⚠️  获取 ${handle} 的提交记录失败: ${error.message}`);
+            }
+          }
+
+          // 最近动态只包括全站最新的100条，从中找出这些用户的博客和评论
+          if (options.blogs) {
+            const lowerHandles = new Set(handles.map(handle => handle.toLowerCase()));
+            const actions = await codeforcesAPI.getRecentActions(100);
+            items.push(...actions
+              .map(recentActionFeedItem)
+              .filter((item): item is FeedItem => !!item && lowerHandles.has(item.handle.toLowerCase())));
+          }
+
+          if (items.length === 0) {
+            console.log('暂无动态');
+            return;
+          }
+
+          const count = parseInt(options.count);
+          items.sort((a, b) => b.timeSeconds - a.timeSeconds).slice(0, count).forEach(item => {
+            const time = new Date(item.timeSeconds * 1000).toLocaleString();
+            console.log(`[${time}] ${item.handle.padEnd(20)} ${item.text}`);
+          });
+        } catch (error: any) {
+          console.error('获取动态失败:', error.message);
+          process.exit(1);
+        }
+      })
+  );
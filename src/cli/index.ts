@@ -8,6 +8,12 @@ import { userCommand } from './commands/user.js';
 import { configCommand } from './commands/config.js';
 import { authCommand } from './commands/auth.js';
 import { submitCommand } from './commands/submit.js';
+import { testCommand } from './commands/test.js';
+import { stressCommand } from './commands/stress.js';
+import { parseCommand } from './commands/parse.js';
+import { templateCommand } from './commands/template.js';
+import { blogCommand } from './commands/blog.js';
+import { httpClient } from '../utils/http.js';
 
 const program = new Command();
 const config = getConfig();
@@ -15,7 +21,15 @@ const config = getConfig();
 program
   .name('cf-tool')
   .description('Codeforces API 工具')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('--offline', '离线模式：不访问网络，只使用缓存数据（包括已过期的缓存）');
+
+// 全局选项在执行子命令前生效
+program.hook('preAction', () => {
+  if (program.opts().offline) {
+    httpClient.setOffline(true);
+  }
+});
 
 // 添加子命令
 program.addCommand(contestCommand);
@@ -24,5 +38,10 @@ program.addCommand(userCommand);
 program.addCommand(configCommand);
 program.addCommand(authCommand);
 program.addCommand(submitCommand);
+program.addCommand(testCommand);
+program.addCommand(stressCommand);
+program.addCommand(parseCommand);
+program.addCommand(templateCommand);
+program.addCommand(blogCommand);
 
 program.parse();
\ No newline at end of file
@@ -11,6 +11,7 @@ const __dirname = dirname(__filename);
 const defaultConfig: AppConfig = {
   api: {
     baseUrl: 'https://codeforces.com/api',
+    siteUrl: 'https://codeforces.com',
     timeout: 10000,
     retryAttempts: 3,
     retryDelay: 1000,
@@ -25,15 +26,45 @@ const defaultConfig: AppConfig = {
     ttl: 300, // 5分钟
     maxEntries: 1000,
     maxSize: 50 * 1024 * 1024, // 50MB
-    cacheDir: join(homedir(), '.cf-tool', 'cache')
+    cacheDir: join(homedir(), '.cf-tool', 'cache'),
+    policies: {
+      'contest.standings': 60,
+      'contest.status': 60,
+      'contest.hacks': 60,
+      'user.status': 120,
+      'user.friends': 600,
+      'user.ratedList': 3600,
+      'blogEntry.comments': 300,
+      'recentActions': 60,
+      'problem.statement': 'forever' // 题面页面，发布后不再变化
+    }
   },
-  handle: '' // 初始为空字符串
+  handle: '', // 初始为空字符串
+  templates: {},
+  defaultTemplates: {}
 };
 
 // 配置文件路径
 const configDir = join(homedir(), '.codeforces-api-tool');
 const configPath = join(configDir, 'config.json');
 
+/**
+ * 将用户配置合并到默认配置上
+ * api/cache 按字段合并，cache.policies 按方法合并，旧配置文件缺少的新字段使用默认值
+ */
+function mergeConfig(userConfig: Partial<AppConfig>): AppConfig {
+  return {
+    ...defaultConfig,
+    ...userConfig,
+    api: { ...defaultConfig.api, ...userConfig.api },
+    cache: {
+      ...defaultConfig.cache,
+      ...userConfig.cache,
+      policies: { ...defaultConfig.cache.policies, ...userConfig.cache?.policies }
+    }
+  };
+}
+
 /**
  * 加载配置
  */
@@ -42,7 +73,7 @@ export function loadConfig(): AppConfig {
     if (existsSync(configPath)) {
       const configData = readFileSync(configPath, 'utf-8');
       const userConfig = JSON.parse(configData);
-      return { ...defaultConfig, ...userConfig };
+      return mergeConfig(userConfig);
     }
   } catch (error) {
     console.warn('Failed to load config, using defaults:', error);
@@ -85,19 +116,39 @@ function loadConfigSync(): AppConfig {
     if (existsSync(configPath)) {
       const configData = readFileSync(configPath, 'utf-8');
       const userConfig = JSON.parse(configData);
-      return { ...defaultConfig, ...userConfig };
+      return applyEnvOverrides(mergeConfig(userConfig));
     }
   } catch (error) {
     console.warn('加载配置文件失败，使用默认配置:', error);
   }
-  return { ...defaultConfig };
+  return applyEnvOverrides({ ...defaultConfig });
+}
+
+/**
+ * 应用环境变量覆盖（不会写回配置文件）
+ * CF_API_URL 覆盖 api.baseUrl，CF_SITE_URL 覆盖 api.siteUrl，便于连接本地模拟服务器
+ */
+function applyEnvOverrides(config: AppConfig): AppConfig {
+  const { CF_API_URL, CF_SITE_URL } = process.env;
+  if (!CF_API_URL && !CF_SITE_URL) {
+    return config;
+  }
+  return {
+    ...config,
+    api: {
+      ...config.api,
+      baseUrl: CF_API_URL || config.api.baseUrl,
+      siteUrl: CF_SITE_URL || config.api.siteUrl
+    }
+  };
 }
 
 /**
  * 更新配置
  */
 export function updateConfig(updates: Partial<AppConfig>): void {
-  const newConfig = { ...getConfig(), ...updates };
+  // 基于配置文件更新，避免把环境变量覆盖的值写回文件
+  const newConfig = { ...loadConfig(), ...updates };
   saveConfig(newConfig);
-  configCache = newConfig;
+  configCache = applyEnvOverrides(newConfig);
 }
\ No newline at end of file
@@ -0,0 +1,492 @@
+import { Contest, Problem, User, Submission, RanklistRow, Sample, RatingChange, Hack, BlogEntry, Comment } from '../types/index.js';
+
+// 模拟服务器使用的固定数据，时间戳固定以便输出可复现
+
+// 模拟题面数据
+export interface MockStatement {
+  timeLimit: string;
+  memoryLimit: string;
+  legend: string;
+  input: string;
+  output: string;
+  samples: Sample[];
+  interaction?: string; // 交互题的交互说明
+  note?: string;
+}
+
+const BASE_TIME = 1700000000;
+
+// 题面中引用的图片（1x1 PNG），路径与 Codeforces 的 /predownloaded/ 一致
+export const images: Record<string, string> = {
+  '3a/7f/palindrome.png': 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg=='
+};
+
+export const contests: Contest[] = [
+  {
+    id: 2001,
+    name: 'Mock Round 2 (Div. 2)',
+    type: 'CF',
+    phase: 'BEFORE',
+    frozen: false,
+    durationSeconds: 7200,
+    startTimeSeconds: BASE_TIME + 30 * 24 * 3600,
+    relativeTimeSeconds: -30 * 24 * 3600
+  },
+  {
+    id: 2000,
+    name: 'Mock Round 1 (Div. 2)',
+    type: 'CF',
+    phase: 'FINISHED',
+    frozen: false,
+    durationSeconds: 7200,
+    startTimeSeconds: BASE_TIME,
+    relativeTimeSeconds: 14 * 24 * 3600
+  },
+  {
+    id: 1999,
+    name: 'Mock Educational Round',
+    type: 'ICPC',
+    phase: 'FINISHED',
+    frozen: false,
+    durationSeconds: 7200,
+    startTimeSeconds: BASE_TIME - 7 * 24 * 3600,
+    relativeTimeSeconds: 21 * 24 * 3600
+  }
+];
+
+export const gymContests: Contest[] = [
+  {
+    id: 100001,
+    name: 'Mock Training Camp Day 1',
+    type: 'ICPC',
+    phase: 'FINISHED',
+    frozen: false,
+    durationSeconds: 18000,
+    startTimeSeconds: BASE_TIME - 30 * 24 * 3600,
+    relativeTimeSeconds: 44 * 24 * 3600,
+    preparedBy: 'tourist',
+    kind: 'Training Camp Contest',
+    country: 'Russia',
+    city: 'Petrozavodsk',
+    season: '2023-2024'
+  }
+];
+
+export const problems: Problem[] = [
+  { contestId: 2000, index: 'A', name: 'Sum of Two', type: 'PROGRAMMING', points: 500, rating: 800, tags: ['implementation', 'math'] },
+  { contestId: 2000, index: 'B', name: 'Average Speed', type: 'PROGRAMMING', points: 1000, rating: 1200, tags: ['math'] },
+  { contestId: 2000, index: 'C', name: 'Yes or No', type: 'PROGRAMMING', points: 1500, rating: 1500, tags: ['greedy', 'strings'] },
+  { contestId: 2001, index: 'A', name: 'Countdown', type: 'PROGRAMMING', points: 500, tags: ['implementation'] },
+  { contestId: 1999, index: 'A', name: 'Reverse Array', type: 'PROGRAMMING', rating: 800, tags: ['implementation'] },
+  { contestId: 1999, index: 'B', name: 'Binary Search Practice', type: 'PROGRAMMING', rating: 1400, tags: ['binary search'] },
+  { problemsetName: 'acmsguru', index: '100', name: 'A+B', type: 'PROGRAMMING', tags: [] }
+];
+
+// 训练赛中的题目，不出现在题库中
+export const gymProblems: Problem[] = [
+  { contestId: 100001, index: 'A', name: 'Camp Warmup', type: 'PROGRAMMING', tags: ['math'] },
+  { contestId: 100001, index: 'B', name: 'Guess the Number', type: 'PROGRAMMING', tags: ['binary search', 'interactive'] }
+];
+
+export const problemStatistics = [
+  { contestId: 2000, index: 'A', solvedCount: 25000 },
+  { contestId: 2000, index: 'B', solvedCount: 12000 },
+  { contestId: 2000, index: 'C', solvedCount: 4000 },
+  { contestId: 2001, index: 'A', solvedCount: 0 },
+  { contestId: 1999, index: 'A', solvedCount: 30000 },
+  { contestId: 1999, index: 'B', solvedCount: 8000 },
+  { problemsetName: 'acmsguru', index: '100', solvedCount: 15000 }
+];
+
+export const statements: Record<string, MockStatement> = {
+  '2000A': {
+    timeLimit: '1 second',
+    memoryLimit: '256 megabytes',
+    legend: '<p>You are given two integers <span class="tex-span"><i>a</i></span> and <span class="tex-span"><i>b</i></span>. Print their sum.</p>',
+    input: '<p>The only line contains two integers <span class="tex-span"><i>a</i></span> and <span class="tex-span"><i>b</i></span> (<span class="tex-span">−10<sup class="upper-index">9</sup> ≤ <i>a</i>, <i>b</i> ≤ 10<sup class="upper-index">9</sup></span>).</p>',
+    output: '<p>Print one integer — the sum.</p>',
+    samples: [
+      { input: '1 2', output: '3' },
+      { input: '-5 5', output: '0' }
+    ],
+    note: '<p>In the first example 1 + 2 = 3.</p>'
+  },
+  '2000B': {
+    timeLimit: '2 seconds',
+    memoryLimit: '256 megabytes',
+    legend: '<p>A car travels <span class="tex-span"><i>d</i></span> kilometers in <span class="tex-span"><i>t</i></span> hours. Find its average speed.</p>',
+    input: '<p>The only line contains two integers <span class="tex-span"><i>d</i></span> and <span class="tex-span"><i>t</i></span> (<span class="tex-span">1 ≤ <i>d</i>, <i>t</i> ≤ 1000</span>).</p>',
+    output: '<p>Print the average speed. Your answer is considered correct if its absolute or relative error does not exceed <span class="tex-span">10<sup class="upper-index"> - 6</sup></span>.</p>',
+    samples: [
+      { input: '10 3', output: '3.333333333' },
+      { input: '7 7', output: '1.000000000' }
+    ]
+  },
+  '2000C': {
+    timeLimit: '1 second',
+    memoryLimit: '256 megabytes',
+    legend: '<p>Given a string <span class="tex-span"><i>s</i></span>, determine whether it is a palindrome.</p><p><img src="/predownloaded/3a/7f/palindrome.png" alt="palindrome" style="max-width: 100.0%;max-height: 100.0%;" /></p>',
+    input: '<p>The first line contains <span class="tex-span"><i>t</i></span> — the number of test cases. Each of the next <span class="tex-span"><i>t</i></span> lines contains a string.</p>',
+    output: '<p>For each test case print "YES" if the string is a palindrome and "NO" otherwise.</p><p>You can output the answer in any case (upper or lower).</p>',
+    samples: [
+      { input: '3\nabba\nabc\na', output: 'YES\nNO\nYES' }
+    ]
+  },
+  '2001A': {
+    timeLimit: '1 second',
+    memoryLimit: '256 megabytes',
+    legend: '<p>Given <span class="tex-span"><i>n</i></span>, print the numbers from <span class="tex-span"><i>n</i></span> down to 1.</p>',
+    input: '<p>The only line contains an integer <span class="tex-span"><i>n</i></span> (<span class="tex-span">1 ≤ <i>n</i> ≤ 100</span>).</p>',
+    output: '<p>Print <span class="tex-span"><i>n</i></span> integers separated by spaces.</p>',
+    samples: [
+      { input: '3', output: '3 2 1' }
+    ]
+  },
+  '100001A': {
+    timeLimit: '1 second',
+    memoryLimit: '256 megabytes',
+    legend: '<p>Print the square of <span class="tex-span"><i>n</i></span>.</p>',
+    input: '<p>The only line contains an integer <span class="tex-span"><i>n</i></span> (<span class="tex-span">1 ≤ <i>n</i> ≤ 1000</span>).</p>',
+    output: '<p>Print one integer.</p>',
+    samples: [
+      { input: '12', output: '144' }
+    ]
+  },
+  '100001B': {
+    timeLimit: '1 second',
+    memoryLimit: '256 megabytes',
+    legend: '<p>This is an interactive problem.</p><p>The jury has chosen an integer <span class="tex-span"><i>x</i></span> (<span class="tex-span">1 ≤ <i>x</i> ≤ 10<sup class="upper-index">6</sup></span>). Find it using at most 25 queries.</p>',
+    input: '<p>There is no input in advance.</p>',
+    output: '<p>When you have found <span class="tex-span"><i>x</i></span>, print "! <span class="tex-span"><i>x</i></span>".</p>',
+    interaction: '<p>To make a query, print "? <span class="tex-span"><i>y</i></span>". The jury answers "&lt;" if <span class="tex-span"><i>x</i> &lt; <i>y</i></span> and "&gt;=" otherwise.</p><p>Do not forget to flush the output after each query.</p>',
+    samples: [
+      { input: '<\n>=', output: '? 2\n? 1\n! 1' }
+    ]
+  },
+  'acmsguru100': {
+    timeLimit: '0.25 second',
+    memoryLimit: '65 megabytes',
+    legend: '<p>Read integers <span class="tex-span"><i>A</i></span> and <span class="tex-span"><i>B</i></span> from input file and write their sum in output file.</p>',
+    input: '<p>Input file contains integers <span class="tex-span"><i>A</i></span> and <span class="tex-span"><i>B</i></span> (<span class="tex-span">0 &lt; <i>A</i>, <i>B</i> &lt; 10001</span>).</p>',
+    output: '<p>Write answer in output file.</p>',
+    samples: [
+      { input: '5 3', output: '8' }
+    ]
+  },
+  '1999A': {
+    timeLimit: '1 second',
+    memoryLimit: '256 megabytes',
+    legend: '<p>Reverse the given array.</p>',
+    input: '<p>The first line contains <span class="tex-span"><i>n</i></span>, the second line contains <span class="tex-span"><i>n</i></span> integers.</p>',
+    output: '<p>Print the array in reverse order.</p>',
+    samples: [
+      { input: '3\n1 2 3', output: '3 2 1' }
+    ]
+  },
+  '1999B': {
+    timeLimit: '2 seconds',
+    memoryLimit: '256 megabytes',
+    legend: '<p>Find the position of <span class="tex-span"><i>x</i></span> in a sorted array.</p>',
+    input: '<p>The first line contains <span class="tex-span"><i>n</i></span> and <span class="tex-span"><i>x</i></span>, the second line contains the array.</p>',
+    output: '<p>Print the 1-based position, or -1.</p>',
+    samples: [
+      { input: '5 4\n1 2 4 8 16', output: '3' }
+    ]
+  }
+};
+
+// 俄文题面（?locale=ru），没有俄文版本的题目显示英文题面
+export const ruStatements: Record<string, MockStatement & { name: string }> = {
+  '2000A': {
+    name: 'Сумма двух',
+    timeLimit: '1 секунда',
+    memoryLimit: '256 мегабайт',
+    legend: '<p>Даны два целых числа <span class="tex-span"><i>a</i></span> и <span class="tex-span"><i>b</i></span>. Выведите их сумму.</p>',
+    input: '<p>Единственная строка содержит два целых числа <span class="tex-span"><i>a</i></span> и <span class="tex-span"><i>b</i></span> (<span class="tex-span">−10<sup class="upper-index">9</sup> ≤ <i>a</i>, <i>b</i> ≤ 10<sup class="upper-index">9</sup></span>).</p>',
+    output: '<p>Выведите одно целое число — сумму.</p>',
+    samples: [
+      { input: '1 2', output: '3' },
+      { input: '-5 5', output: '0' }
+    ],
+    note: '<p>В первом примере 1 + 2 = 3.</p>'
+  }
+};
+
+export const users: User[] = [
+  {
+    handle: 'tourist',
+    firstName: 'Gennady',
+    lastName: 'Korotkevich',
+    country: 'Belarus',
+    city: 'Gomel',
+    organization: 'ITMO University',
+    contribution: 150,
+    rank: 'legendary grandmaster',
+    rating: 3800,
+    maxRank: 'legendary grandmaster',
+    maxRating: 4000,
+    lastOnlineTimeSeconds: BASE_TIME + 100000,
+    registrationTimeSeconds: 1265987288,
+    friendOfCount: 70000,
+    avatar: 'https://userpic.codeforces.org/no-avatar.jpg',
+    titlePhoto: 'https://userpic.codeforces.org/no-title.jpg'
+  },
+  {
+    handle: 'Petr',
+    firstName: 'Petr',
+    lastName: 'Mitrichev',
+    country: 'Switzerland',
+    city: 'Zurich',
+    organization: 'Google',
+    contribution: 120,
+    rank: 'international grandmaster',
+    rating: 2800,
+    maxRank: 'legendary grandmaster',
+    maxRating: 3300,
+    lastOnlineTimeSeconds: BASE_TIME + 90000,
+    registrationTimeSeconds: 1265987000,
+    friendOfCount: 20000,
+    avatar: 'https://userpic.codeforces.org/no-avatar.jpg',
+    titlePhoto: 'https://userpic.codeforces.org/no-title.jpg'
+  },
+  {
+    handle: 'newbie_coder',
+    country: 'China',
+    city: 'Beijing',
+    organization: 'Peking University',
+    contribution: 0,
+    rank: 'pupil',
+    rating: 1250,
+    maxRank: 'pupil',
+    maxRating: 1310,
+    lastOnlineTimeSeconds: BASE_TIME + 80000,
+    registrationTimeSeconds: 1650000000,
+    friendOfCount: 3,
+    avatar: 'https://userpic.codeforces.org/no-avatar.jpg',
+    titlePhoto: 'https://userpic.codeforces.org/no-title.jpg'
+  },
+  {
+    handle: 'itmo_student',
+    country: 'Russia',
+    city: 'Saint Petersburg',
+    organization: 'ITMO University',
+    contribution: 12,
+    rank: 'master',
+    rating: 2150,
+    maxRank: 'master',
+    maxRating: 2230,
+    lastOnlineTimeSeconds: BASE_TIME + 50000,
+    registrationTimeSeconds: 1500000000,
+    friendOfCount: 150,
+    avatar: 'https://userpic.codeforces.org/no-avatar.jpg',
+    titlePhoto: 'https://userpic.codeforces.org/no-title.jpg'
+  },
+  // 很久没有上线的用户，只在 user.ratedList 的 activeOnly=false 且 includeRetired=true 时返回
+  {
+    handle: 'retired_legend',
+    country: 'Russia',
+    city: 'Saint Petersburg',
+    organization: 'ITMO University',
+    contribution: 45,
+    rank: 'grandmaster',
+    rating: 2500,
+    maxRank: 'legendary grandmaster',
+    maxRating: 3100,
+    lastOnlineTimeSeconds: BASE_TIME - 3 * 365 * 24 * 3600,
+    registrationTimeSeconds: 1270000000,
+    friendOfCount: 900,
+    avatar: 'https://userpic.codeforces.org/no-avatar.jpg',
+    titlePhoto: 'https://userpic.codeforces.org/no-title.jpg'
+  }
+];
+
+/**
+ * 生成一条提交记录
+ */
+function makeSubmission(
+  id: number,
+  handle: string,
+  problem: Problem,
+  verdict: Submission['verdict'],
+  offsetSeconds: number,
+  passedTestCount: number
+): Submission {
+  return {
+    id,
+    contestId: problem.contestId,
+    creationTimeSeconds: BASE_TIME + offsetSeconds,
+    relativeTimeSeconds: offsetSeconds,
+    problem,
+    author: {
+      contestId: problem.contestId,
+      members: [{ handle }],
+      participantType: 'CONTESTANT',
+      ghost: false,
+      startTimeSeconds: BASE_TIME
+    },
+    programmingLanguage: 'GNU C++17',
+    verdict,
+    testset: 'TESTS',
+    passedTestCount,
+    timeConsumedMillis: 46,
+    memoryConsumedBytes: 102400
+  };
+}
+
+export const submissions: Submission[] = [
+  makeSubmission(900006, 'newbie_coder', problems[1], 'WRONG_ANSWER', 2400, 3),
+  makeSubmission(900005, 'newbie_coder', problems[0], 'OK', 900, 12),
+  makeSubmission(900004, 'Petr', problems[2], 'OK', 1500, 40),
+  makeSubmission(900003, 'Petr', problems[0], 'OK', 240, 12),
+  makeSubmission(900002, 'tourist', problems[2], 'OK', 600, 40),
+  makeSubmission(900001, 'tourist', problems[1], 'OK', 300, 25),
+  makeSubmission(900000, 'tourist', problems[0], 'OK', 120, 12)
+];
+
+// 比赛 2000 的Hack记录
+export const hacks: Hack[] = [
+  {
+    id: 80001,
+    creationTimeSeconds: BASE_TIME + 1800,
+    hacker: submissions[3].author,
+    defender: submissions[1].author,
+    verdict: 'HACK_UNSUCCESSFUL',
+    problem: problems[0],
+    test: '1\n1000000000'
+  },
+  {
+    id: 80002,
+    creationTimeSeconds: BASE_TIME + 2700,
+    hacker: submissions[6].author,
+    defender: submissions[0].author,
+    verdict: 'HACK_SUCCESSFUL',
+    problem: problems[1],
+    test: '3\n1 2 3'
+  }
+];
+
+/**
+ * 生成排名行
+ */
+function makeRow(rank: number, handle: string, points: number, penalty: number, solvedTimes: (number | null)[]): RanklistRow {
+  return {
+    party: {
+      contestId: 2000,
+      members: [{ handle }],
+      participantType: 'CONTESTANT',
+      ghost: false,
+      startTimeSeconds: BASE_TIME
+    },
+    rank,
+    points,
+    penalty,
+    successfulHackCount: 0,
+    unsuccessfulHackCount: 0,
+    problemResults: solvedTimes.map(time => time === null
+      ? { points: 0, rejectedAttemptCount: 0, type: 'FINAL' as const }
+      : { points: 1, rejectedAttemptCount: 0, type: 'FINAL' as const, bestSubmissionTimeSeconds: time })
+  };
+}
+
+export const standingsRows: Record<number, RanklistRow[]> = {
+  2000: [
+    makeRow(1, 'tourist', 2940, 0, [120, 300, 600]),
+    makeRow(2, 'Petr', 1980, 0, [240, null, 1500]),
+    makeRow(3, 'newbie_coder', 470, 0, [900, null, null])
+  ],
+  1999: []
+};
+
+/**
+ * 根据每场比赛后的积分生成积分记录，比赛ID从 firstContestId 开始递增
+ */
+function makeRatingHistory(handle: string, firstContestId: number, ratings: number[]): RatingChange[] {
+  return ratings.map((newRating, i) => ({
+    contestId: firstContestId + i,
+    contestName: `Mock Archive Round ${firstContestId + i}`,
+    handle,
+    rank: Math.max(1, Math.round(5000 / (i + 2))),
+    ratingUpdateTimeSeconds: BASE_TIME - (ratings.length - i) * 14 * 24 * 3600,
+    oldRating: i === 0 ? 0 : ratings[i - 1],
+    newRating
+  }));
+}
+
+// 用户的好友（user.friends），按 API key 所属用户索引
+export const friends: Record<string, string[]> = {
+  newbie_coder: ['tourist', 'itmo_student']
+};
+
+// 用户的积分记录（user.rating），最后一场为比赛 2000
+export const ratingHistory: Record<string, RatingChange[]> = {
+  tourist: makeRatingHistory('tourist', 1990, [1850, 2230, 2510, 2760, 3050, 3320, 3540, 3702, 3779]),
+  Petr: makeRatingHistory('Petr', 1993, [1720, 2105, 2388, 2612, 2750, 2791]),
+  newbie_coder: makeRatingHistory('newbie_coder', 1995, [812, 1032, 1153, 1284])
+};
+
+// 已结束比赛的积分变化，新积分与 users 中的当前积分一致
+export const ratingChanges: Record<number, RatingChange[]> = {
+  2000: [
+    { contestId: 2000, contestName: 'Mock Round 1 (Div. 2)', handle: 'tourist', rank: 1, ratingUpdateTimeSeconds: BASE_TIME + 3 * 3600, oldRating: 3779, newRating: 3800 },
+    { contestId: 2000, contestName: 'Mock Round 1 (Div. 2)', handle: 'Petr', rank: 2, ratingUpdateTimeSeconds: BASE_TIME + 3 * 3600, oldRating: 2791, newRating: 2800 },
+    { contestId: 2000, contestName: 'Mock Round 1 (Div. 2)', handle: 'newbie_coder', rank: 3, ratingUpdateTimeSeconds: BASE_TIME + 3 * 3600, oldRating: 1284, newRating: 1250 }
+  ]
+};
+
+// 把比赛 2000 的积分变化接到积分记录末尾
+ratingChanges[2000].forEach(change => {
+  ratingHistory[change.handle].push(change);
+});
+
+// 博客文章（blogEntry.view），正文中的公式与网站一样以 $...$ 书写
+export const blogEntries: BlogEntry[] = [
+  {
+    id: 120001,
+    originalLocale: 'en',
+    creationTimeSeconds: BASE_TIME - 2 * 24 * 3600,
+    authorHandle: 'Petr',
+    title: '<p>Mock Round 1 (Div. 2) Announcement</p>',
+    content: '<div class="ttypography"><p>Hello, Codeforces!</p><p>On <b>Mock Round 1</b> you will be given <span style="font-weight: bold;">3 problems</span> and 2 hours to solve them.</p><p>Good luck!</p></div>',
+    locale: 'en',
+    modificationTimeSeconds: BASE_TIME - 2 * 24 * 3600,
+    allowViewHistory: true,
+    tags: ['announcement', 'mock round'],
+    rating: 215
+  },
+  {
+    id: 120002,
+    originalLocale: 'en',
+    creationTimeSeconds: BASE_TIME + 4 * 3600,
+    authorHandle: 'Petr',
+    title: '<p>Mock Round 1 (Div. 2) Editorial</p>',
+    content: '<div class="ttypography"><h3>2000A — Sum of Two</h3><p>Just print $a + b$. Note that $|a + b| \\le 2 \\cdot 10^9$, so it fits into a 64-bit integer.</p><pre><code>a, b = map(int, input().split())\nprint(a + b)</code></pre><h3>2000C — Palindrome</h3><p>Compare $s_i$ with $s_{n - i + 1}$ for every $i$.</p></div>',
+    locale: 'en',
+    modificationTimeSeconds: BASE_TIME + 5 * 3600,
+    allowViewHistory: true,
+    tags: ['editorial', 'mock round'],
+    rating: 98
+  },
+  {
+    id: 120003,
+    originalLocale: 'en',
+    creationTimeSeconds: BASE_TIME + 6 * 3600,
+    authorHandle: 'tourist',
+    title: '<p>Thanks for the round</p>',
+    content: '<div class="ttypography"><p>Nice problems, especially C.</p></div>',
+    locale: 'en',
+    modificationTimeSeconds: BASE_TIME + 6 * 3600,
+    allowViewHistory: false,
+    tags: [],
+    rating: 40
+  }
+];
+
+// 博客评论（blogEntry.comments），按博客ID索引
+export const blogComments: Record<number, Comment[]> = {
+  120002: [
+    { id: 900001, creationTimeSeconds: BASE_TIME + 4 * 3600 + 600, commentatorHandle: 'newbie_coder', locale: 'en', text: '<p>Why does $a + b$ overflow in C++?</p>', rating: 3 },
+    { id: 900002, creationTimeSeconds: BASE_TIME + 4 * 3600 + 900, commentatorHandle: 'tourist', locale: 'en', text: '<p>Use <code>long long</code>, the sum can reach $2 \\cdot 10^9$.</p>', parentCommentId: 900001, rating: 25 },
+    { id: 900003, creationTimeSeconds: BASE_TIME + 4 * 3600 + 1200, commentatorHandle: 'newbie_coder', locale: 'en', text: '<p>Got it, thanks!</p>', parentCommentId: 900002, rating: 1 },
+    { id: 900004, creationTimeSeconds: BASE_TIME + 5 * 3600, commentatorHandle: 'Petr', locale: 'en', text: '<p>Fixed a typo in the C solution.</p>', rating: 7 }
+  ]
+};
@@ -0,0 +1,15 @@
+import { createMockServer } from './server.js';
+
+const PORT = process.env.MOCK_PORT || 4000;
+
+const app = createMockServer();
+
+// 启动模拟服务器
+app.listen(PORT, () => {
+  const siteUrl = `http://localhost:${PORT}`;
+  console.log(`🧪 Codeforces 模拟服务器已启动: ${siteUrl}`);
+  console.log('在另一个终端中设置以下环境变量，即可让命令行工具和 Web 服务连接到模拟服务器:');
+  console.log(`  export CF_API_URL=${siteUrl}/api`);
+  console.log(`  export CF_SITE_URL=${siteUrl}`);
+  console.log('模拟账号: tourist / Petr / newbie_coder（任意密码）');
+});
@@ -0,0 +1,568 @@
+import express from 'express';
+import { Contest, Submission } from '../types/index.js';
+import { computeApiSig } from '../utils/signature.js';
+import {
+  contests,
+  gymContests,
+  problems,
+  gymProblems,
+  problemStatistics,
+  statements,
+  ruStatements,
+  users,
+  submissions,
+  standingsRows,
+  ratingChanges,
+  ratingHistory,
+  hacks,
+  images,
+  blogEntries,
+  blogComments,
+  friends
+} from './fixtures.js';
+
+// 模拟提交的判题进度：排队时间和每个测试点耗时（毫秒）
+const QUEUE_MS = 1500;
+const TEST_MS = 250;
+const MOCK_TEST_COUNT = 12;
+
+// 即将开始的模拟比赛，设置 MOCK_START_IN=<秒> 后在服务器启动该秒数后开始
+const UPCOMING_CONTEST_ID = 2001;
+
+// 模拟的 API key，属于 newbie_coder，可通过 MOCK_API_KEY / MOCK_API_SECRET 修改
+const MOCK_API_KEY = process.env.MOCK_API_KEY || 'mock-key';
+const MOCK_API_SECRET = process.env.MOCK_API_SECRET || 'mock-secret';
+const MOCK_API_KEY_OWNER = 'newbie_coder';
+
+// 设置 MOCK_CALL_LIMIT=<次数> 后，每秒超过该次数的 API 调用返回 "Call limit exceeded"
+const MOCK_CALL_LIMIT = Number(process.env.MOCK_CALL_LIMIT) || 0;
+
+// 运行期间提交的代码
+interface MockSubmitted {
+  submission: Submission;
+  createdAt: number;
+  finalVerdict: Submission['verdict'];
+}
+
+/**
+ * 从请求的Cookie中读取登录用户
+ * 登录后会写入 JSESSIONID=mock-<handle>
+ */
+function getSessionHandle(req: express.Request): string | null {
+  const cookieHeader = req.headers.cookie || '';
+  const match = cookieHeader.match(/JSESSIONID=mock-([^;\s]+)/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+/**
+ * 返回Codeforces风格的成功响应
+ */
+function ok(res: express.Response, result: any): void {
+  res.json({ status: 'OK', result });
+}
+
+/**
+ * 返回Codeforces风格的失败响应
+ */
+function failed(res: express.Response, comment: string): void {
+  res.status(400).json({ status: 'FAILED', comment });
+}
+
+/**
+ * 页面外壳，包含登录状态相关的元素
+ */
+function renderPage(title: string, body: string, handle: string | null): string {
+  const header = handle
+    ? `<div class="lang-chooser"><a class="user-name" href="/profile/${handle}">${handle}</a> | <a href="/logout">logout</a></div>`
+    : `<div class="lang-chooser"><a href="/enter">Enter</a> | <a href="/register">Register</a></div>`;
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="UTF-8"><title>${title} - Codeforces (mock)</title></head>
+<body>
+<div id="header">${header}</div>
+<div id="pageContent">
+${body}
+</div>
+</body>
+</html>`;
+}
+
+/**
+ * 渲染题目页面，结构与Codeforces题面一致
+ */
+function renderProblem(contestId: number, index: string, problemsetName?: string, locale?: unknown): string | null {
+  const problem = [...problems, ...gymProblems].find(p => p.index === index &&
+    (problemsetName ? p.problemsetName === problemsetName : p.contestId === contestId));
+  const key = `${problemsetName || contestId}${index}`;
+  // 请求俄文且有俄文版本时显示俄文题面，否则显示英文
+  const ru = locale === 'ru' ? ruStatements[key] : undefined;
+  const statement = ru || statements[key];
+  if (!problem || !statement) {
+    return null;
+  }
+  const titles = ru
+    ? { time: 'ограничение по времени на тест', memory: 'ограничение по памяти на тест', input: 'Входные данные', output: 'Выходные данные', examples: 'Примеры', note: 'Примечание' }
+    : { time: 'time limit per test', memory: 'memory limit per test', input: 'Input', output: 'Output', examples: 'Examples', note: 'Note' };
+
+  const samples = statement.samples.map(sample => {
+    const inputLines = sample.input.split('\n')
+      .map((line, i) => `<div class="test-example-line test-example-line-${i % 2 === 0 ? 'even' : 'odd'} test-example-line-${i}">${line}</div>`)
+      .join('');
+    return `<div class="input"><div class="title">Input</div><pre>${inputLines}</pre></div>` +
+      `<div class="output"><div class="title">Output</div><pre>${sample.output}\n</pre></div>`;
+  }).join('\n');
+
+  return `<div class="ttypography"><div class="problem-statement">
+<div class="header">
+<div class="title">${index}. ${ru?.name || problem.name}</div>
+<div class="time-limit"><div class="property-title">${titles.time}</div>${statement.timeLimit}</div>
+<div class="memory-limit"><div class="property-title">${titles.memory}</div>${statement.memoryLimit}</div>
+<div class="input-file"><div class="property-title">input</div>standard input</div>
+<div class="output-file"><div class="property-title">output</div>standard output</div>
+</div>
+<div>${statement.legend}</div>
+<div class="input-specification"><div class="section-title">${titles.input}</div>${statement.input}</div>
+<div class="output-specification"><div class="section-title">${titles.output}</div>${statement.output}</div>
+${statement.interaction ? `<div class="interaction"><div class="section-title">Interaction</div>${statement.interaction}</div>` : ''}
+<div class="sample-tests"><div class="section-title">${titles.examples}</div><div class="sample-test">
+${samples}
+</div></div>
+${statement.note ? `<div class="note"><div class="section-title">${titles.note}</div>${statement.note}</div>` : ''}
+</div></div>`;
+}
+
+// 比赛、训练赛和小组比赛页面的路径前缀，小组ID不做校验
+const CONTEST_PATHS = ['/contest/:contestId', '/gym/:contestId', '/group/:groupId/contest/:contestId'];
+
+/**
+ * 三种比赛下的同一页面路径，如 /contest/:contestId/submit、/gym/:contestId/submit
+ */
+function contestRoutes(suffix: string): string[] {
+  return CONTEST_PATHS.map(prefix => prefix + suffix);
+}
+
+/**
+ * 创建模拟Codeforces服务器
+ * JSON API 挂载在 /api 下，网页（题面、登录、提交）挂载在根路径
+ */
+export function createMockServer(): express.Express {
+  const app = express();
+  const submitted: MockSubmitted[] = [];
+  let nextSubmissionId = 950000;
+  const startIn = process.env.MOCK_START_IN ? parseInt(process.env.MOCK_START_IN) : null;
+  const unavailableCalls = Number(process.env.MOCK_UNAVAILABLE) || 0;
+  const upcomingStart = Math.floor(Date.now() / 1000) + (startIn ?? 0);
+
+  /**
+   * 比赛列表，设置了 MOCK_START_IN 时即将开始的比赛按当前时间计算阶段
+   */
+  const currentContests = (): Contest[] => contests.map(contest => {
+    if (contest.id !== UPCOMING_CONTEST_ID || startIn === null) {
+      return contest;
+    }
+    const now = Math.floor(Date.now() / 1000);
+    const relativeTimeSeconds = now - upcomingStart;
+    let phase: Contest['phase'] = 'BEFORE';
+    if (relativeTimeSeconds >= contest.durationSeconds) {
+      phase = 'FINISHED';
+    } else if (relativeTimeSeconds >= 0) {
+      phase = 'CODING';
+    }
+    return { ...contest, startTimeSeconds: upcomingStart, relativeTimeSeconds, phase };
+  });
+
+  app.use(express.urlencoded({ extended: true }));
+
+  /**
+   * 根据经过的时间计算模拟提交的当前状态
+   */
+  const currentState = (entry: MockSubmitted): Submission => {
+    const elapsed = Date.now() - entry.createdAt;
+    if (elapsed < QUEUE_MS) {
+      return { ...entry.submission, verdict: 'TESTING', passedTestCount: 0 };
+    }
+    const passed = Math.floor((elapsed - QUEUE_MS) / TEST_MS);
+    if (passed < MOCK_TEST_COUNT) {
+      return { ...entry.submission, verdict: 'TESTING', passedTestCount: passed };
+    }
+    const finalPassed = entry.finalVerdict === 'OK' ? MOCK_TEST_COUNT : Math.floor(MOCK_TEST_COUNT / 2);
+    return { ...entry.submission, verdict: entry.finalVerdict, passedTestCount: finalPassed };
+  };
+
+  const allSubmissions = (): Submission[] => [
+    ...submitted.map(currentState).reverse(),
+    ...submissions
+  ];
+
+  // ===== JSON API =====
+
+  // 模拟 API 调用频率限制
+  const callTimes: number[] = [];
+  app.use('/api/:method', (req, res, next) => {
+    if (!MOCK_CALL_LIMIT) {
+      return next();
+    }
+    const now = Date.now();
+    while (callTimes.length > 0 && now - callTimes[0] >= 1000) {
+      callTimes.shift();
+    }
+    if (callTimes.length >= MOCK_CALL_LIMIT) {
+      return res.status(503).json({ status: 'FAILED', comment: 'Call limit exceeded' });
+    }
+    callTimes.push(now);
+    next();
+  });
+
+  // 模拟服务器暂时不可用：设置 MOCK_UNAVAILABLE=<次数> 后，每个 API 方法的前 N 次调用返回 503
+  const failedCalls = new Map<string, number>();
+  app.use('/api/:method', (req, res, next) => {
+    const count = failedCalls.get(req.params.method) || 0;
+    if (count >= unavailableCalls) {
+      return next();
+    }
+    failedCalls.set(req.params.method, count + 1);
+    res.status(503).json({ status: 'FAILED', comment: 'Codeforces is temporarily unavailable' });
+  });
+
+  // 带 apiKey 的请求需要校验签名，通过后记录授权用户
+  app.use('/api/:method', (req, res, next) => {
+    const { apiKey, apiSig, time } = req.query;
+    if (apiKey === undefined) {
+      return next();
+    }
+    if (apiKey !== MOCK_API_KEY) {
+      return failed(res, 'apiKey: Incorrect API key');
+    }
+    if (Math.abs(Math.floor(Date.now() / 1000) - Number(time)) > 300) {
+      return failed(res, 'time: Time is too far from the server time');
+    }
+    const signature = String(apiSig || '');
+    const params = Object.fromEntries(
+      Object.entries(req.query)
+        .filter(([key]) => key !== 'apiSig')
+        .map(([key, value]) => [key, Array.isArray(value) ? value.map(String) : String(value)])
+    );
+    if (signature !== computeApiSig(signature.substring(0, 6), req.params.method, params, MOCK_API_SECRET)) {
+      return failed(res, 'apiSig: Incorrect signature');
+    }
+    res.locals.authHandle = MOCK_API_KEY_OWNER;
+    next();
+  });
+
+  app.get('/api/contest.list', (req, res) => {
+    ok(res, req.query.gym === 'true' ? gymContests : currentContests());
+  });
+
+  app.get('/api/problemset.problems', (req, res) => {
+    const tags = typeof req.query.tags === 'string' ? req.query.tags.split(';') : [];
+    const matched = problems
+      .map((problem, i) => ({ problem, stats: problemStatistics[i] }))
+      .filter(({ problem }) => tags.every(tag => problem.tags.includes(tag)));
+    ok(res, {
+      problems: matched.map(m => m.problem),
+      problemStatistics: matched.map(m => m.stats)
+    });
+  });
+
+  app.get('/api/contest.standings', (req, res) => {
+    const contestId = parseInt(req.query.contestId as string);
+    const contest = [...currentContests(), ...gymContests].find(c => c.id === contestId);
+    if (!contest) {
+      return failed(res, `contestId: Contest with id ${req.query.contestId} not found`);
+    }
+    if (contest.phase === 'BEFORE') {
+      return failed(res, `contestId: Contest with id ${contestId} has not started`);
+    }
+
+    let rows = standingsRows[contestId] || [];
+    if (typeof req.query.handles === 'string') {
+      const handles = req.query.handles.split(';').map(h => h.toLowerCase());
+      rows = rows.filter(row => row.party.members.some(m => handles.includes(m.handle.toLowerCase())));
+    }
+    const from = req.query.from ? parseInt(req.query.from as string) : 1;
+    const count = req.query.count ? parseInt(req.query.count as string) : rows.length;
+    rows = rows.slice(from - 1, from - 1 + count);
+
+    ok(res, {
+      contest,
+      problems: [...problems, ...gymProblems].filter(p => p.contestId === contestId),
+      rows
+    });
+  });
+
+  app.get('/api/contest.status', (req, res) => {
+    const contestId = parseInt(req.query.contestId as string);
+    const contest = [...currentContests(), ...gymContests].find(c => c.id === contestId);
+    if (!contest) {
+      return failed(res, `contestId: Contest with id ${req.query.contestId} not found`);
+    }
+    const handle = typeof req.query.handle === 'string' ? req.query.handle.toLowerCase() : null;
+    const list = allSubmissions().filter(s => s.contestId === contestId &&
+      (!handle || s.author.members.some(m => m.handle.toLowerCase() === handle)));
+    const from = req.query.from ? parseInt(req.query.from as string) : 1;
+    const count = req.query.count ? parseInt(req.query.count as string) : list.length;
+    ok(res, list.slice(from - 1, from - 1 + count));
+  });
+
+  app.get('/api/contest.hacks', (req, res) => {
+    const contestId = parseInt(req.query.contestId as string);
+    const contest = [...currentContests(), ...gymContests].find(c => c.id === contestId);
+    if (!contest) {
+      return failed(res, `contestId: Contest with id ${req.query.contestId} not found`);
+    }
+    ok(res, hacks.filter(hack => hack.problem.contestId === contestId));
+  });
+
+  app.get('/api/contest.ratingChanges', (req, res) => {
+    const contestId = parseInt(req.query.contestId as string);
+    const contest = [...currentContests(), ...gymContests].find(c => c.id === contestId);
+    if (!contest) {
+      return failed(res, `contestId: Contest with id ${req.query.contestId} not found`);
+    }
+    ok(res, ratingChanges[contestId] || []);
+  });
+
+  app.get('/api/user.info', (req, res) => {
+    const handles = String(req.query.handles || '').split(';').filter(Boolean);
+    if (handles.length === 0) {
+      return failed(res, 'handles: Field should not be empty');
+    }
+    const result = [];
+    for (const handle of handles) {
+      const user = users.find(u => u.handle.toLowerCase() === handle.toLowerCase());
+      if (!user) {
+        return failed(res, `handles: User with handle ${handle} not found`);
+      }
+      // 只有授权用户本人才能看到邮箱
+      result.push(user.handle === res.locals.authHandle ? { ...user, email: `${user.handle}@example.com` } : user);
+    }
+    ok(res, result);
+  });
+
+  // 需要授权：返回 API key 所属用户的好友，onlyOnline 时只返回最近一天内上线的
+  app.get('/api/user.friends', (req, res) => {
+    const authHandle = res.locals.authHandle;
+    if (!authHandle) {
+      return failed(res, 'apiKey: Field should not be empty');
+    }
+    const list = friends[authHandle] || [];
+    if (req.query.onlyOnline !== 'true') {
+      return ok(res, list);
+    }
+    const now = Math.max(...users.map(u => u.lastOnlineTimeSeconds));
+    ok(res, list.filter(handle => now - users.find(u => u.handle === handle)!.lastOnlineTimeSeconds <= 24 * 3600));
+  });
+
+  // 以最近上线的用户为"现在"：一个月内上线算活跃用户，一年以上未上线算退役用户
+  app.get('/api/user.ratedList', (req, res) => {
+    const activeOnly = req.query.activeOnly !== 'false';
+    const includeRetired = req.query.includeRetired === 'true';
+    const now = Math.max(...users.map(u => u.lastOnlineTimeSeconds));
+    const result = users.filter(u => u.rating !== undefined &&
+      (!activeOnly || now - u.lastOnlineTimeSeconds <= 30 * 24 * 3600) &&
+      (includeRetired || now - u.lastOnlineTimeSeconds <= 365 * 24 * 3600));
+    ok(res, result.sort((a, b) => b.rating! - a.rating!));
+  });
+
+  app.get('/api/user.rating', (req, res) => {
+    const handle = String(req.query.handle || '');
+    const user = users.find(u => u.handle.toLowerCase() === handle.toLowerCase());
+    if (!user) {
+      return failed(res, `handle: User with handle ${handle} not found`);
+    }
+    ok(res, ratingHistory[user.handle] || []);
+  });
+
+  app.get('/api/user.status', (req, res) => {
+    const handle = String(req.query.handle || '');
+    if (!users.some(u => u.handle.toLowerCase() === handle.toLowerCase())) {
+      return failed(res, `handle: User with handle ${handle} not found`);
+    }
+    const from = req.query.from ? parseInt(req.query.from as string) : 1;
+    const list = allSubmissions().filter(s => s.author.members.some(m => m.handle.toLowerCase() === handle.toLowerCase()));
+    const count = req.query.count ? parseInt(req.query.count as string) : list.length;
+    ok(res, list.slice(from - 1, from - 1 + count));
+  });
+
+  app.get('/api/blogEntry.view', (req, res) => {
+    const entry = blogEntries.find(e => e.id === parseInt(String(req.query.blogEntryId)));
+    if (!entry) {
+      return failed(res, `blogEntryId: Blog entry with id ${req.query.blogEntryId} not found`);
+    }
+    ok(res, entry);
+  });
+
+  app.get('/api/blogEntry.comments', (req, res) => {
+    const blogEntryId = parseInt(String(req.query.blogEntryId));
+    if (!blogEntries.some(e => e.id === blogEntryId)) {
+      return failed(res, `blogEntryId: Blog entry with id ${req.query.blogEntryId} not found`);
+    }
+    ok(res, blogComments[blogEntryId] || []);
+  });
+
+  app.get('/api/user.blogEntries', (req, res) => {
+    const handle = String(req.query.handle || '');
+    if (!users.some(u => u.handle.toLowerCase() === handle.toLowerCase())) {
+      return failed(res, `handle: User with handle ${handle} not found`);
+    }
+    // 列表中不包括正文
+    ok(res, blogEntries
+      .filter(e => e.authorHandle.toLowerCase() === handle.toLowerCase())
+      .map(({ content, ...entry }) => entry));
+  });
+
+  app.get('/api/recentActions', (req, res) => {
+    const maxCount = parseInt(String(req.query.maxCount));
+    if (!(maxCount >= 1 && maxCount <= 100)) {
+      return failed(res, 'maxCount: Field should contain value between 1 and 100');
+    }
+    const actions = [
+      ...blogEntries.map(({ content, ...entry }) => ({ timeSeconds: entry.creationTimeSeconds, blogEntry: entry })),
+      ...Object.entries(blogComments).flatMap(([id, list]) => {
+        const { content, ...entry } = blogEntries.find(e => e.id === parseInt(id))!;
+        return list.map(comment => ({ timeSeconds: comment.creationTimeSeconds, blogEntry: entry, comment }));
+      })
+    ];
+    ok(res, actions.sort((a, b) => b.timeSeconds - a.timeSeconds).slice(0, maxCount));
+  });
+
+  app.get('/api/:method', (req, res) => {
+    failed(res, `Method ${req.params.method} is not supported by the mock server`);
+  });
+
+  // ===== 网页 =====
+
+  app.get('/', (req, res) => {
+    const handle = getSessionHandle(req);
+    res.send(renderPage('Home', '<h1>Codeforces mock server</h1>', handle));
+  });
+
+  app.get('/enter', (req, res) => {
+    const form = `<form id="enterForm" method="post" action="/enter">
+<input type="text" id="handleOrEmail" name="handleOrEmail">
+<input type="password" id="password" name="password">
+<input type="checkbox" id="remember" name="remember">
+<input type="submit" class="submit" value="Login">
+</form>`;
+    res.send(renderPage('Enter', form, getSessionHandle(req)));
+  });
+
+  app.post('/enter', (req, res) => {
+    const handleOrEmail = String(req.body.handleOrEmail || '');
+    const user = users.find(u => u.handle.toLowerCase() === handleOrEmail.toLowerCase());
+    if (!user || !req.body.password) {
+      return res.send(renderPage('Enter', '<span class="error for__password">Invalid handle/email or password</span>', null));
+    }
+    res.cookie('JSESSIONID', `mock-${user.handle}`, { path: '/' });
+    res.redirect('/');
+  });
+
+  app.get('/logout', (req, res) => {
+    res.clearCookie('JSESSIONID', { path: '/' });
+    res.redirect('/');
+  });
+
+  // 题面图片
+  app.get('/predownloaded/*', (req, res) => {
+    const image = images[req.params[0]];
+    if (!image) {
+      return res.status(404).send('Not found');
+    }
+    res.type('png').send(Buffer.from(image, 'base64'));
+  });
+
+  // 题库中的题目：比赛题目的题库页面，以及不属于比赛的题库（如 acmsguru）
+  app.get(['/problemset/problem/:contestId/:index', '/problemsetProblem/:problemsetName/:index'], (req, res) => {
+    const { contestId, index, problemsetName } = req.params as Record<string, string>;
+    const html = renderProblem(parseInt(contestId), index.toUpperCase(), problemsetName, req.query.locale);
+    if (!html) {
+      return res.status(404).send(renderPage('Not found', '<p>No such problem</p>', getSessionHandle(req)));
+    }
+    res.send(renderPage('Problem', html, getSessionHandle(req)));
+  });
+
+  app.get(contestRoutes('/problem/:index'), (req, res) => {
+    const html = renderProblem(parseInt(req.params.contestId), req.params.index.toUpperCase(), undefined, req.query.locale);
+    if (!html) {
+      return res.status(404).send(renderPage('Not found', '<p>No such problem</p>', getSessionHandle(req)));
+    }
+    res.send(renderPage('Problem', html, getSessionHandle(req)));
+  });
+
+  app.get(contestRoutes('/submit'), (req, res) => {
+    const handle = getSessionHandle(req);
+    if (!handle) {
+      return res.redirect('/enter');
+    }
+    const contestId = parseInt(req.params.contestId);
+    const options = [...problems, ...gymProblems]
+      .filter(p => p.contestId === contestId)
+      .map(p => `<option value="${p.index}">${p.index} - ${p.name}</option>`)
+      .join('');
+    const form = `<form class="submit-form" method="post" action="${req.path}">
+<select name="submittedProblemIndex">${options}</select>
+<select name="programTypeId"><option value="54">GNU G++17 7.3.0</option><option value="31">Python 3.8.10</option><option value="73">GNU G++20 11.2.0</option></select>
+<textarea id="sourceCodeTextarea" name="source"></textarea>
+<input type="submit" id="singlePageSubmitButton" value="Submit">
+</form>`;
+    res.send(renderPage('Submit', form, handle));
+  });
+
+  app.post(contestRoutes('/submit'), (req, res) => {
+    const handle = getSessionHandle(req);
+    if (!handle) {
+      return res.redirect('/');
+    }
+    const contestId = parseInt(req.params.contestId);
+    const problem = [...problems, ...gymProblems].find(p => p.contestId === contestId && p.index === req.body.submittedProblemIndex);
+    const source = String(req.body.source || '');
+    if (!problem || !source) {
+      return res.send(renderPage('Submit', '<span class="error for__source">Source code or problem is missing</span>', handle));
+    }
+
+    // 源码中的 MOCK_VERDICT=XXX 用于指定最终判题结果，默认 OK
+    const verdictMatch = source.match(/MOCK_VERDICT=([A-Z_]+)/);
+    const now = Math.floor(Date.now() / 1000);
+    submitted.push({
+      createdAt: Date.now(),
+      finalVerdict: (verdictMatch ? verdictMatch[1] : 'OK') as Submission['verdict'],
+      submission: {
+        id: nextSubmissionId++,
+        contestId,
+        creationTimeSeconds: now,
+        relativeTimeSeconds: 2147483647,
+        problem,
+        author: { contestId, members: [{ handle }], participantType: 'PRACTICE', ghost: false },
+        programmingLanguage: req.body.programTypeId === '31' ? 'Python 3' : 'GNU C++17',
+        testset: 'TESTS',
+        passedTestCount: 0,
+        timeConsumedMillis: 15,
+        memoryConsumedBytes: 0
+      }
+    });
+    res.redirect(req.path.replace(/\/submit$/, '/my'));
+  });
+
+  app.get(contestRoutes('/my'), (req, res) => {
+    const handle = getSessionHandle(req);
+    const contestId = parseInt(req.params.contestId);
+    const rows = allSubmissions()
+      .filter(s => s.contestId === contestId && s.author.members.some(m => m.handle === handle))
+      .map(s => `<tr><td>${s.id}</td><td>${s.problem.index}</td><td>${s.verdict}</td></tr>`)
+      .join('\n');
+    const table = `<table class="status-frame-datatable"><tr><th>#</th><th>Problem</th><th>Verdict</th></tr>\n${rows}\n</table>`;
+    res.send(renderPage('My submissions', table, handle));
+  });
+
+  app.get(contestRoutes('/submission/:submissionId'), (req, res) => {
+    const id = parseInt(req.params.submissionId);
+    const submission = allSubmissions().find(s => s.id === id);
+    if (!submission) {
+      return res.status(404).send(renderPage('Not found', '<p>No such submission</p>', getSessionHandle(req)));
+    }
+    const body = `<h1>Submission ${submission.id}</h1><p>Problem ${submission.problem.index}: ${submission.verdict}</p>`;
+    res.send(renderPage('Submission', body, getSessionHandle(req)));
+  });
+
+  return app;
+}
@@ -3,6 +3,7 @@ import cors from 'cors';
 import { CodeforcesAPI } from '../api/codeforces.js';
 import { getConfig } from '../config/index.js';
 import { Contest, Problem, User, Submission } from '../types/index.js';
+import { predictContestRatings } from '../utils/rating.js';
 
 const app = express();
 const config = getConfig();
@@ -35,7 +36,7 @@ app.get('/api/contests', asyncHandler(async (req: any, res: any) => {
 // 获取比赛排名
 app.get('/api/contests/:contestId/standings', asyncHandler(async (req: any, res: any) => {
   const { contestId } = req.params;
-  const { from, count, handles, room, showUnofficial } = req.query;
+  const { from, count, handles, room, showUnofficial, predict } = req.query;
   
   const api = new CodeforcesAPI();
    const standings = await api.getContestStandings(
@@ -44,10 +45,45 @@ app.get('/api/contests/:contestId/standings', asyncHandler(async (req: any, res:
      count ? parseInt(count) : undefined,
      handles ? handles.split(',') : undefined
    );
+
+  // predict=true 时为每行附加预测的积分变化
+  if (predict === 'true') {
+    const predictions = await predictContestRatings(parseInt(contestId));
+    const rows = standings.rows.map(row => ({
+      ...row,
+      prediction: predictions.get(row.party.members[0]?.handle) || null
+    }));
+    return res.json({ success: true, data: { ...standings, rows } });
+  }
   
   res.json({ success: true, data: standings });
 }));
 
+// 获取比赛的提交记录
+app.get('/api/contests/:contestId/status', asyncHandler(async (req: any, res: any) => {
+  const { contestId } = req.params;
+  const { handle, problem, verdict, lang, from, count } = req.query;
+
+  const api = new CodeforcesAPI();
+  const submissions = await api.getContestStatus(
+    parseInt(contestId),
+    { handle, problemIndex: problem, verdict, language: lang },
+    from ? parseInt(from) : undefined,
+    count ? parseInt(count) : undefined
+  );
+  res.json({ success: true, data: submissions });
+}));
+
+// 获取比赛的Hack记录
+app.get('/api/contests/:contestId/hacks', asyncHandler(async (req: any, res: any) => {
+  const { contestId } = req.params;
+  const { handle, problem, verdict } = req.query;
+
+  const api = new CodeforcesAPI();
+  const hacks = await api.getContestHacks(parseInt(contestId), { handle, problemIndex: problem, verdict });
+  res.json({ success: true, data: hacks });
+}));
+
 // 获取比赛题目
 app.get('/api/contests/:contestId/problems', asyncHandler(async (req: any, res: any) => {
   const { contestId } = req.params;
@@ -98,7 +134,7 @@ app.get('/api/problems/search', asyncHandler(async (req: any, res: any) => {
     filteredProblems = filteredProblems.slice(0, parseInt(limit));
   }
   
-  res.json({ success: true, data: problems });
+  res.json({ success: true, data: filteredProblems });
 }));
 
 // 获取题目标签
@@ -121,6 +157,14 @@ app.get('/api/users/:handles', asyncHandler(async (req: any, res: any) => {
   res.json({ success: true, data: users });
 }));
 
+// 获取用户积分变化记录
+app.get('/api/users/:handle/rating', asyncHandler(async (req: any, res: any) => {
+  const { handle } = req.params;
+  const api = new CodeforcesAPI();
+  const changes = await api.getUserRating(handle);
+  res.json({ success: true, data: changes });
+}));
+
 // 获取用户提交记录
 app.get('/api/users/:handle/submissions', asyncHandler(async (req: any, res: any) => {
   const { handle } = req.params;
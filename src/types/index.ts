@@ -14,12 +14,27 @@ export interface LoginResult {
   cookies?: string[];
 }
 
+// 比赛引用：普通比赛、训练赛（gym/{id}）或小组比赛（group/{groupId}/contest/{id}）
+export interface ContestRef {
+  contestId: number;
+  gym?: boolean;
+  groupId?: string;
+}
+
+// 题目引用，如 1234A、gym:102345/B、group:abc/contest/123/C、problemset:1234/A、acmsguru:100
+export interface ProblemRef extends ContestRef {
+  index: string;
+  problemset?: boolean; // 通过题库页面 /problemset/problem/{contestId}/{index} 访问
+  problemsetName?: string; // 不属于比赛的题库（如 acmsguru），此时 contestId 为 0
+}
+
 // 提交代码相关接口定义
 export interface SubmitCodeParams {
   contestId: number;
   problemIndex: string; // 如 'A', 'B1' 等
   source: string;
   programTypeId: number; // 编程语言ID
+  gym?: boolean; // 是否为训练赛
   groupId?: string; // 小组比赛ID
 }
 
@@ -85,6 +100,16 @@ export interface User {
   titlePhoto: string;
 }
 
+// 用户的筛选条件（user.ratedList），忽略大小写
+export interface UserFilter {
+  country?: string;
+  city?: string;
+  organization?: string; // 按组织名称的子串匹配，如 ITMO
+}
+
+// 用户排行的排序字段
+export type UserSortField = 'rating' | 'maxRating' | 'contribution';
+
 // Party接口定义
 export interface Party {
   contestId?: number;
@@ -120,6 +145,47 @@ export interface Submission {
   points?: number;
 }
 
+// 提交记录的筛选条件（contest.status）
+export interface SubmissionFilter {
+  handle?: string;
+  handles?: string[]; // 只保留这些用户的提交（如好友），与 handle 同时给出时都需满足
+  problemIndex?: string;
+  verdict?: string; // 判题结果或简写，如 WRONG_ANSWER、WA
+  language?: string; // 按语言名称的子串匹配，如 C++
+}
+
+// 分页查找竞赛提交记录的结果
+export interface ContestSubmissionSearch {
+  submissions: Submission[]; // 符合条件的提交，最新的在前
+  hasMore: boolean; // 是否还有更多符合条件的提交
+  scanned: number; // 已查找的提交数
+  scanLimitReached: boolean; // 达到查找上限，更早的提交没有查找
+}
+
+// Hack接口定义（contest.hacks）
+export interface Hack {
+  id: number;
+  creationTimeSeconds: number;
+  hacker: Party;
+  defender: Party;
+  verdict?: 'HACK_SUCCESSFUL' | 'HACK_UNSUCCESSFUL' | 'INVALID_INPUT' | 'GENERATOR_INCOMPILABLE' | 'GENERATOR_CRASHED' | 'IGNORED' | 'TESTING' | 'OTHER';
+  problem: Problem;
+  test?: string;
+  judgeProtocol?: {
+    manual: string;
+    protocol: string;
+    verdict: string;
+  };
+}
+
+// Hack的筛选条件，handle 匹配发起者或被hack的选手
+export interface HackFilter {
+  handle?: string;
+  handles?: string[]; // 发起者或被hack的选手在这些用户中
+  problemIndex?: string;
+  verdict?: string; // 如 HACK_SUCCESSFUL、successful
+}
+
 // RanklistRow接口定义
 export interface RanklistRow {
   party: Party;
@@ -141,6 +207,60 @@ export interface ProblemResult {
   bestSubmissionTimeSeconds?: number;
 }
 
+// RatingChange接口定义（contest.ratingChanges / user.rating）
+export interface RatingChange {
+  contestId: number;
+  contestName: string;
+  handle: string;
+  rank: number;
+  ratingUpdateTimeSeconds: number;
+  oldRating: number;
+  newRating: number;
+}
+
+// BlogEntry接口定义（blogEntry.view / user.blogEntries）
+export interface BlogEntry {
+  id: number;
+  originalLocale: string;
+  creationTimeSeconds: number;
+  authorHandle: string;
+  title: string; // HTML
+  content?: string; // HTML，user.blogEntries 和 recentActions 的结果中没有该字段
+  locale: string;
+  modificationTimeSeconds: number;
+  allowViewHistory: boolean;
+  tags: string[];
+  rating: number;
+}
+
+// Comment接口定义（blogEntry.comments）
+export interface Comment {
+  id: number;
+  creationTimeSeconds: number;
+  commentatorHandle: string;
+  locale: string;
+  text: string; // HTML
+  parentCommentId?: number; // 回复的评论，顶层评论没有该字段
+  rating: number;
+}
+
+// RecentAction接口定义（recentActions），新博客只有 blogEntry，新评论同时有 blogEntry 和 comment
+export interface RecentAction {
+  timeSeconds: number;
+  blogEntry?: BlogEntry;
+  comment?: Comment;
+}
+
+// 预测的积分变化
+export interface RatingPrediction {
+  handle: string;
+  rank: number;
+  oldRating: number;
+  delta: number;
+  newRating: number;
+  actualDelta?: number; // 积分已更新时的实际变化
+}
+
 // API响应接口
 export interface ApiResponse<T> {
   status: 'OK' | 'FAILED';
@@ -149,17 +269,24 @@ export interface ApiResponse<T> {
 }
 
 // 缓存配置
+// 缓存策略：有效期（秒）、'never'（不缓存）或 'forever'（永久缓存）
+export type CachePolicy = number | 'never' | 'forever';
+
 export interface CacheConfig {
   enabled: boolean;
   ttl: number; // 缓存时间（秒）
   maxEntries: number; // 最大缓存条目数
   maxSize: number; // 最大缓存大小（字节）
   cacheDir: string; // 缓存目录
+  policies: Record<string, CachePolicy>; // 按 API 方法名（如 contest.standings）设置的缓存策略，未设置的方法使用 ttl
 }
 
 // API配置
 export interface ApiConfig {
   baseUrl: string;
+  siteUrl: string; // 网页（题面、登录、提交）的基础地址
+  apiKey?: string; // API key，设置后所有API请求都会签名
+  apiSecret?: string; // API key 对应的 secret
   timeout: number;
   retryAttempts: number;
   retryDelay: number;
@@ -182,24 +309,132 @@ export interface ProblemStatement {
   inputFormat: string;
   outputFormat: string;
   samples: Sample[];
+  interaction?: string; // 交互题的交互说明（Interaction 一节）
+  interactive?: boolean; // 是否为交互题，交互题的样例不能直接用于测试
   note?: string;
+  language?: StatementLanguage; // 题面语言，旧缓存中没有该字段（均为英文）
 }
 
+// 题面语言，对应网页的 ?locale= 参数
+export type StatementLanguage = 'en' | 'ru';
+
 // 样例接口定义
 export interface Sample {
   input: string;
   output: string;
 }
 
+// 题目工作区元数据（保存在题目目录的 .cf-problem.json 中）
+export interface ProblemWorkspaceMeta {
+  contestId: number;
+  index: string;
+  gym?: boolean; // 训练赛
+  groupId?: string; // 小组比赛所在的小组
+  problemset?: boolean; // 通过题库页面访问
+  problemsetName?: string; // 不属于比赛的题库，如 acmsguru
+  name: string;
+  timeLimit: string;
+  memoryLimit: string;
+  url: string;
+  sourceFile: string; // 相对于题目目录的源文件名
+  checker?: string; // 根据输出格式推断的检查方式，如 tokens、float:1e-6
+  interactive?: boolean; // 交互题，测试时需要指定交互器
+}
+
+// 创建竞赛工作区的选项
+export interface ContestWorkspaceOptions {
+  output: string; // 工作区所在目录
+  extension: string; // 源文件扩展名
+  template?: string; // 源文件模板内容，缺省时使用该语言的默认模板
+  language?: StatementLanguage; // 题面语言，缺省为英文
+  useCache: boolean;
+}
+
+// 本地编译产物
+export interface CompiledProgram {
+  language: string;
+  command: string;
+  args: string[];
+  cwd?: string;
+}
+
+// 编译结果
+export interface CompileResult {
+  success: boolean;
+  program?: CompiledProgram;
+  error?: string;
+}
+
+// 程序运行结果
+export interface RunResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: string | null;
+  timeMs: number;
+  timedOut: boolean;
+}
+
+// 交互过程记录中的一条消息
+export interface TranscriptEntry {
+  from: 'solution' | 'interactor'; // 发送方
+  data: string; // 一行消息，不含换行符
+  timeMs: number; // 距开始运行的时间
+}
+
+// 交互题运行结果，两个程序的 stdout 即各自发出的全部消息
+export interface InteractionResult {
+  solution: RunResult;
+  interactor: RunResult;
+  transcript: TranscriptEntry[];
+  timedOut: boolean;
+}
+
+// 输出检查方式：exact 逐行比较，tokens 按空白分词比较，float 浮点误差比较，yesno 忽略YES/NO大小写，custom 自定义检查器
+export type CheckerMode = 'exact' | 'tokens' | 'float' | 'yesno' | 'custom';
+
+// 输出检查器
+export interface Checker {
+  mode: CheckerMode;
+  epsilon?: number; // float 模式允许的绝对或相对误差
+  program?: CompiledProgram; // custom 模式下的检查器程序
+}
+
+// 输出检查结果
+export interface CheckResult {
+  ok: boolean;
+  message?: string; // 不通过的原因
+}
+
 // 题面格式枚举
 export enum StatementFormat {
   HTML = 'html',
   MARKDOWN = 'markdown'
 }
 
+// 源文件模板
+export interface SourceTemplate {
+  language: string; // 源文件扩展名，如 cpp、py
+  content: string; // 模板内容，可包含 {{handle}}、{{contestId}} 等占位符
+}
+
+// 模板占位符的取值
+export interface TemplateVariables {
+  handle: string;
+  contestId: string;
+  index: string;
+  problemName: string;
+  date: string;
+  url: string;
+  timeLimit: string;
+  memoryLimit: string;
+}
+
 // 应用配置
 export interface AppConfig {
   api: ApiConfig;
   cache: CacheConfig;
   handle?: string; // 用户的Codeforces用户名
+  templates: Record<string, SourceTemplate>; // 按名称保存的源文件模板，如 cpp-default
+  defaultTemplates: Record<string, string>; // 每种语言默认使用的模板名称
 }
\ No newline at end of file
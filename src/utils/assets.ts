@@ -0,0 +1,142 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { getConfig } from '../config/index.js';
+import { httpClient } from './http.js';
+import { ProblemStatement } from '../types/index.js';
+
+// 图片保存在题面文件旁的子目录中
+export const ASSETS_DIR_NAME = 'assets';
+
+// 按扩展名推断图片类型，用于 data URI
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp'
+};
+
+// 匹配 <img> 标签的 src 属性：前缀、引号、地址
+const IMG_SRC_PATTERN = /(<img\b[^>]*?\bsrc\s*=\s*)(["'])(.*?)\2/gi;
+
+// 题面中可能包含图片的字段
+const HTML_FIELDS = ['statement', 'inputFormat', 'outputFormat', 'interaction', 'note'] as const;
+
+export interface StatementAssetOptions {
+  dir: string; // 题面文件所在目录，图片保存到其中的 assets 子目录
+  inline?: boolean; // 以 data URI 内嵌图片，不写入文件（用于HTML输出）
+}
+
+export interface StatementAssetResult {
+  statement: ProblemStatement; // 图片地址已替换的题面
+  downloaded: number; // 成功处理的图片数量
+  failed: string[]; // 下载失败的图片地址，保留原链接
+}
+
+/**
+ * 收集HTML中所有图片的地址（只包括 http/https 链接）
+ */
+function collectImageUrls(html: string): string[] {
+  const urls: string[] = [];
+  for (const match of html.matchAll(IMG_SRC_PATTERN)) {
+    if (/^https?:\/\//i.test(match[3])) {
+      urls.push(match[3]);
+    }
+  }
+  return urls;
+}
+
+/**
+ * 替换HTML中的图片地址，未出现在映射中的保持不变
+ */
+function rewriteImageUrls(html: string, replacements: Map<string, string>): string {
+  return html.replace(IMG_SRC_PATTERN, (tag, prefix, quote, url) =>
+    replacements.has(url) ? `${prefix}${quote}${replacements.get(url)}${quote}` : tag
+  );
+}
+
+/**
+ * 根据图片地址生成本地文件名：地址哈希 + 原文件名，重复下载同一图片时复用
+ */
+function getAssetFileName(url: string, contentType?: string): string {
+  const hash = createHash('sha1').update(url).digest('hex').substring(0, 8);
+  const baseName = path.basename(new URL(url).pathname).replace(/[^\w.-]/g, '_') || 'image';
+
+  // 地址没有扩展名时根据响应类型补上
+  if (!path.extname(baseName) && contentType) {
+    const extension = Object.keys(IMAGE_MIME_TYPES).find(ext => IMAGE_MIME_TYPES[ext] === contentType.split(';')[0]);
+    return `${hash}-${baseName}${extension || ''}`;
+  }
+  return `${hash}-${baseName}`;
+}
+
+/**
+ * 下载图片，与网页请求共用限流、重试和离线检查；其他网站的图片请求不带 Codeforces 的Cookie
+ */
+async function downloadImage(url: string): Promise<{ data: Buffer; contentType?: string }> {
+  const response = await httpClient.request<ArrayBuffer>({
+    method: 'GET',
+    url,
+    responseType: 'arraybuffer',
+    timeout: getConfig().api.timeout
+  });
+  return {
+    data: Buffer.from(response.data),
+    contentType: response.headers['content-type']?.toString()
+  };
+}
+
+/**
+ * 下载题面中引用的图片并把链接改为本地副本，离线时也能查看
+ * 图片保存到 dir/assets（链接为相对路径 assets/xxx.png），或以 data URI 内嵌
+ * 下载失败的图片保留原链接
+ * @param statement 题面，图片地址需为绝对地址
+ * @param options 保存目录和是否内嵌
+ */
+export async function localizeStatementImages(
+  statement: ProblemStatement,
+  options: StatementAssetOptions
+): Promise<StatementAssetResult> {
+  const urls = [...new Set(HTML_FIELDS.flatMap(field => collectImageUrls(statement[field] || '')))];
+  const replacements = new Map<string, string>();
+  const failed: string[] = [];
+  const assetsDir = path.join(options.dir, ASSETS_DIR_NAME);
+
+  for (const url of urls) {
+    try {
+      if (options.inline) {
+        const { data, contentType } = await downloadImage(url);
+        const mimeType = contentType?.split(';')[0] || IMAGE_MIME_TYPES[path.extname(new URL(url).pathname).toLowerCase()] || 'application/octet-stream';
+        replacements.set(url, `data:${mimeType};base64,${data.toString('base64')}`);
+        continue;
+      }
+
+      // 已下载过的图片直接复用
+      const existing = fs.existsSync(assetsDir)
+        ? fs.readdirSync(assetsDir).find(file => file.startsWith(getAssetFileName(url)))
+        : undefined;
+      let fileName = existing;
+      if (!fileName) {
+        const { data, contentType } = await downloadImage(url);
+        fileName = getAssetFileName(url, contentType);
+        fs.mkdirSync(assetsDir, { recursive: true });
+        fs.writeFileSync(path.join(assetsDir, fileName), data);
+      }
+      replacements.set(url, `${ASSETS_DIR_NAME}/${fileName}`);
+    } catch (error) {
+      failed.push(url);
+    }
+  }
+
+  const localized: ProblemStatement = { ...statement };
+  for (const field of HTML_FIELDS) {
+    if (localized[field]) {
+      localized[field] = rewriteImageUrls(localized[field]!, replacements);
+    }
+  }
+
+  return { statement: localized, downloaded: replacements.size, failed };
+}
@@ -1,24 +1,114 @@
-import { promises as fs, existsSync, readFileSync, writeFileSync, mkdirSync, readdirSync, statSync, unlinkSync } from 'fs';
-import { join, dirname } from 'path';
+import { existsSync, readFileSync, writeFileSync, mkdirSync, readdirSync, statSync, unlinkSync, renameSync } from 'fs';
+import { join } from 'path';
 import { createHash } from 'crypto';
 import { getConfig } from '../config/index.js';
+import { CachePolicy } from '../types/index.js';
 
 interface CacheEntry<T> {
   data: T;
   timestamp: number;
-  ttl: number;
+  ttl: number | null; // 有效期（毫秒），null 表示永久有效
+}
+
+/**
+ * 索引中记录的缓存条目信息，查找和淘汰时不需要读取缓存文件
+ */
+interface CacheIndexEntry {
+  size: number; // 缓存文件大小（字节）
+  timestamp: number; // 写入时间
+  ttl: number | null; // 有效期（毫秒），null 表示永久有效
+  lastAccess: number; // 最近一次读取或写入的时间，用于LRU淘汰
+}
+
+// 索引文件名，与缓存文件（<md5>.json）放在同一目录
+const INDEX_FILE = 'index.json';
+
+// 索引修改后延迟写回的时间（毫秒），连续读写缓存时只写一次
+const INDEX_FLUSH_DELAY = 1000;
+
+// 使用缓存的 API 方法，可在 cache.policies 中设置缓存策略；problem.statement 为题面页面
+export const CACHEABLE_METHODS = [
+  'contest.list',
+  'contest.standings',
+  'contest.status',
+  'contest.hacks',
+  'contest.ratingChanges',
+  'problemset.problems',
+  'user.info',
+  'user.status',
+  'user.rating',
+  'user.friends',
+  'user.ratedList',
+  'blogEntry.view',
+  'blogEntry.comments',
+  'user.blogEntries',
+  'recentActions',
+  'problem.statement'
+];
+
+/**
+ * 解析缓存策略：正整数（秒）、never 或 forever
+ * @returns 缓存策略，格式不正确时返回null
+ */
+export function parseCachePolicy(input: string | number): CachePolicy | null {
+  const text = input.toString().trim().toLowerCase();
+  if (text === 'never' || text === 'forever') {
+    return text;
+  }
+  return /^\d+$/.test(text) && parseInt(text) > 0 ? parseInt(text) : null;
+}
+
+/**
+ * API 方法的缓存有效期（毫秒），按 cache.policies 中的策略，未设置时使用 cache.ttl
+ * @returns 有效期，never 为 0，forever 为 Infinity
+ */
+export function getCachePolicyTtl(method: string): number {
+  const { ttl, policies } = getConfig().cache;
+  const policy = policies?.[method] ?? ttl;
+  if (policy === 'never') {
+    return 0;
+  }
+  return policy === 'forever' ? Infinity : policy * 1000;
+}
+
+/**
+ * 读取到的缓存数据
+ */
+export interface CachedValue<T> {
+  data: T;
+  age: number; // 距写入的时间（毫秒）
+  stale: boolean; // 是否已过期
+}
+
+/**
+ * 缓存条目是否已过期
+ */
+function isExpired(entry: { timestamp: number; ttl: number | null }, now: number): boolean {
+  return entry.ttl !== null && now - entry.timestamp > entry.ttl;
 }
 
 /**
  * 缓存管理器
+ * 每个条目保存为一个文件，另有索引文件记录所有条目的大小、有效期和最近访问时间。
+ * 索引在首次使用时载入内存（Map 按最近访问排序），超过 cache.maxEntries 或 cache.maxSize
+ * 时按最近最少使用的顺序淘汰，不需要扫描和解析缓存文件
  */
 export class CacheManager {
   private cacheDir: string;
+  private index: Map<string, CacheIndexEntry> | null = null;
+  private totalSize = 0;
+  private indexDirty = false;
+  private flushTimer: NodeJS.Timeout | null = null;
 
-  constructor() {
+  /**
+   * @param cacheDir 缓存目录，缺省使用配置中的 cache.cacheDir
+   */
+  constructor(cacheDir?: string) {
     const config = getConfig();
-    this.cacheDir = config.cache.cacheDir;
+    this.cacheDir = cacheDir || config.cache.cacheDir;
     this.ensureCacheDir();
+    // 进程退出前写回尚未保存的索引
+    process.on('exit', () => this.flushIndex());
   }
 
   /**
@@ -40,13 +130,166 @@ export class CacheManager {
   /**
    * 获取缓存文件路径
    */
-  private getCacheFilePath(key: string): string {
-    const hashedKey = this.hashKey(key);
+  private getCacheFilePath(hashedKey: string): string {
     return join(this.cacheDir, `${hashedKey}.json`);
   }
 
+  /**
+   * 目录中的缓存文件（不包括索引文件）
+   */
+  private listCacheFiles(): string[] {
+    if (!existsSync(this.cacheDir)) {
+      return [];
+    }
+    return readdirSync(this.cacheDir).filter(file => file.endsWith('.json') && file !== INDEX_FILE);
+  }
+
+  /**
+   * 载入索引，并与目录中的文件核对：
+   * 丢弃文件已不存在的条目，补上索引中缺少的文件（如旧版本或其他进程写入的缓存）
+   */
+  private loadIndex(): Map<string, CacheIndexEntry> {
+    if (this.index) {
+      return this.index;
+    }
+
+    let saved: Record<string, CacheIndexEntry> = {};
+    try {
+      const indexPath = join(this.cacheDir, INDEX_FILE);
+      if (existsSync(indexPath)) {
+        saved = JSON.parse(readFileSync(indexPath, 'utf-8'));
+      }
+    } catch (error) {
+      // 索引损坏时根据缓存文件重建
+      saved = {};
+    }
+
+    const entries: [string, CacheIndexEntry][] = [];
+    for (const file of this.listCacheFiles()) {
+      const hashedKey = file.slice(0, -'.json'.length);
+      if (saved[hashedKey]) {
+        entries.push([hashedKey, saved[hashedKey]]);
+        continue;
+      }
+      const filePath = this.getCacheFilePath(hashedKey);
+      try {
+        const cacheEntry: CacheEntry<any> = JSON.parse(readFileSync(filePath, 'utf-8'));
+        const stats = statSync(filePath);
+        entries.push([hashedKey, {
+          size: stats.size,
+          timestamp: cacheEntry.timestamp,
+          ttl: cacheEntry.ttl,
+          lastAccess: stats.mtimeMs
+        }]);
+      } catch (error) {
+        // 如果文件损坏，删除它
+        this.removeFile(hashedKey);
+      }
+    }
+    entries.sort((a, b) => a[1].lastAccess - b[1].lastAccess);
+    this.index = new Map(entries);
+    this.totalSize = entries.reduce((sum, [, entry]) => sum + entry.size, 0);
+    // 索引与目录不一致时保存核对后的结果
+    if (entries.length !== Object.keys(saved).length || entries.some(([hashedKey]) => !saved[hashedKey])) {
+      this.markDirty();
+    }
+    return this.index;
+  }
+
+  /**
+   * 标记索引已修改，稍后写回文件
+   */
+  private markDirty(): void {
+    this.indexDirty = true;
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flushIndex(), INDEX_FLUSH_DELAY);
+      // 不因等待写回而推迟进程退出
+      this.flushTimer.unref();
+    }
+  }
+
+  /**
+   * 将索引写回文件（先写临时文件再替换，避免中途退出时损坏）
+   */
+  private flushIndex(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    // 缓存目录已被删除时不再写回
+    if (!this.index || !this.indexDirty || !existsSync(this.cacheDir)) {
+      return;
+    }
+    try {
+      const indexPath = join(this.cacheDir, INDEX_FILE);
+      const tempPath = `${indexPath}.${process.pid}.tmp`;
+      writeFileSync(tempPath, JSON.stringify(Object.fromEntries(this.index)));
+      renameSync(tempPath, indexPath);
+      this.indexDirty = false;
+    } catch (error) {
+      console.warn('Failed to save cache index:', error);
+    }
+  }
+
+  /**
+   * 删除缓存文件，文件不存在时忽略
+   */
+  private removeFile(hashedKey: string): void {
+    try {
+      unlinkSync(this.getCacheFilePath(hashedKey));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * 从索引和磁盘中删除条目
+   */
+  private removeEntry(hashedKey: string): void {
+    const index = this.loadIndex();
+    const entry = index.get(hashedKey);
+    if (entry) {
+      this.totalSize -= entry.size;
+      index.delete(hashedKey);
+      this.markDirty();
+    }
+    this.removeFile(hashedKey);
+  }
+
+  /**
+   * 把条目移到最近使用的位置
+   */
+  private touch(hashedKey: string, entry: CacheIndexEntry): void {
+    const index = this.loadIndex();
+    entry.lastAccess = Date.now();
+    index.delete(hashedKey);
+    index.set(hashedKey, entry);
+    this.markDirty();
+  }
+
+  /**
+   * 淘汰最近最少使用的条目，直到条目数和总大小都不超过限制
+   * @returns 淘汰的条目数
+   */
+  private evict(): number {
+    const { maxEntries, maxSize } = getConfig().cache;
+    const index = this.loadIndex();
+    let evicted = 0;
+    for (const hashedKey of index.keys()) {
+      if (index.size <= maxEntries && this.totalSize <= maxSize) {
+        break;
+      }
+      this.removeEntry(hashedKey);
+      evicted++;
+    }
+    return evicted;
+  }
+
   /**
    * 设置缓存
+   * @param ttl 有效期（毫秒），Infinity 表示永久有效，缺省使用 cache.ttl
    */
   set<T>(key: string, data: T, ttl?: number): void {
     const config = getConfig();
@@ -58,14 +301,29 @@ export class CacheManager {
       const cacheEntry: CacheEntry<T> = {
         data,
         timestamp: Date.now(),
-        ttl: ttl || config.cache.ttl * 1000 // 转换为毫秒
+        ttl: ttl === Infinity ? null : ttl || config.cache.ttl * 1000 // 转换为毫秒
       };
+      const content = JSON.stringify(cacheEntry);
+      const size = Buffer.byteLength(content);
+
+      // 单个条目超过总大小限制时不缓存
+      if (size > config.cache.maxSize) {
+        return;
+      }
+
+      const hashedKey = this.hashKey(key);
+      const index = this.loadIndex();
+      this.ensureCacheDir();
+      writeFileSync(this.getCacheFilePath(hashedKey), content);
+
+      this.totalSize += size - (index.get(hashedKey)?.size || 0);
+      this.touch(hashedKey, { size, timestamp: cacheEntry.timestamp, ttl: cacheEntry.ttl, lastAccess: 0 });
 
-      const filePath = this.getCacheFilePath(key);
-      writeFileSync(filePath, JSON.stringify(cacheEntry));
-      
-      // 清理过期缓存
-      this.cleanup();
+      // 超出限制时淘汰最久未使用的缓存
+      const evicted = this.evict();
+      if (evicted > 0 && process.env.CF_DEBUG) {
+        console.log(`Evicted ${evicted} cache entries`);
+      }
     } catch (error) {
       console.warn('Failed to set cache:', error);
     }
@@ -73,31 +331,46 @@ export class CacheManager {
 
   /**
    * 获取缓存
+   * @param options.allowStale 是否返回已过期的缓存（如网络不可用时）
+   */
+  get<T>(key: string, options: { allowStale?: boolean } = {}): T | null {
+    return this.getEntry<T>(key, options)?.data ?? null;
+  }
+
+  /**
+   * 获取缓存及其写入后经过的时间
+   * 过期的缓存不会在读取时删除，网络不可用时仍可使用，直到被新数据覆盖或按LRU淘汰
+   * @param options.allowStale 是否返回已过期的缓存
    */
-  get<T>(key: string): T | null {
+  getEntry<T>(key: string, options: { allowStale?: boolean } = {}): CachedValue<T> | null {
     const config = getConfig();
     if (!config.cache.enabled) {
       return null;
     }
 
     try {
-      const filePath = this.getCacheFilePath(key);
-      
-      if (!existsSync(filePath)) {
+      const hashedKey = this.hashKey(key);
+      const entry = this.loadIndex().get(hashedKey);
+      if (!entry) {
         return null;
       }
 
-      const cacheData = readFileSync(filePath, 'utf-8');
-      const cacheEntry: CacheEntry<T> = JSON.parse(cacheData);
-
       // 检查是否过期
       const now = Date.now();
-      if (now - cacheEntry.timestamp > cacheEntry.ttl) {
-        this.delete(key);
+      const stale = isExpired(entry, now);
+      if (stale && !options.allowStale) {
         return null;
       }
 
-      return cacheEntry.data;
+      const filePath = this.getCacheFilePath(hashedKey);
+      if (!existsSync(filePath)) {
+        this.removeEntry(hashedKey);
+        return null;
+      }
+
+      const cacheEntry: CacheEntry<T> = JSON.parse(readFileSync(filePath, 'utf-8'));
+      this.touch(hashedKey, entry);
+      return { data: cacheEntry.data, age: now - entry.timestamp, stale };
     } catch (error) {
       console.warn('Failed to get cache:', error);
       return null;
@@ -109,68 +382,29 @@ export class CacheManager {
    */
   delete(key: string): void {
     try {
-      const filePath = this.getCacheFilePath(key);
-      if (existsSync(filePath)) {
-        unlinkSync(filePath);
-      }
+      this.removeEntry(this.hashKey(key));
     } catch (error) {
       console.warn('Failed to delete cache:', error);
     }
   }
 
   /**
-   * 清理过期缓存
+   * 清理过期缓存，并按 cache.maxEntries 和 cache.maxSize 淘汰最久未使用的缓存
    */
   cleanup(): void {
     try {
-      if (!existsSync(this.cacheDir)) {
-        return;
-      }
-
-      const files = readdirSync(this.cacheDir);
+      const index = this.loadIndex();
       const now = Date.now();
       let deletedCount = 0;
 
-      for (const file of files) {
-        if (!file.endsWith('.json')) {
-          continue;
-        }
-
-        const filePath = join(this.cacheDir, file);
-        
-        try {
-          const cacheData = readFileSync(filePath, 'utf-8');
-          const cacheEntry: CacheEntry<any> = JSON.parse(cacheData);
-
-          // 检查是否过期
-          if (now - cacheEntry.timestamp > cacheEntry.ttl) {
-            unlinkSync(filePath);
-            deletedCount++;
-          }
-        } catch (error) {
-          // 如果文件损坏，删除它
-          unlinkSync(filePath);
-          deletedCount++;
-        }
-      }
-
-      // 如果缓存文件数量超过限制，删除最旧的文件
-      const config = getConfig();
-      const remainingFiles = readdirSync(this.cacheDir).filter(f => f.endsWith('.json'));
-      if (remainingFiles.length > config.cache.maxEntries) {
-        const fileStats = remainingFiles.map(file => ({
-          file,
-          mtime: statSync(join(this.cacheDir, file)).mtime
-        }));
-
-        fileStats.sort((a, b) => a.mtime.getTime() - b.mtime.getTime());
-        
-        const filesToDelete = fileStats.slice(0, remainingFiles.length - config.cache.maxEntries);
-        for (const { file } of filesToDelete) {
-          unlinkSync(join(this.cacheDir, file));
+      for (const [hashedKey, entry] of index) {
+        if (isExpired(entry, now)) {
+          this.removeEntry(hashedKey);
           deletedCount++;
         }
       }
+      deletedCount += this.evict();
+      this.flushIndex();
 
       if (deletedCount > 0) {
         console.log(`Cleaned up ${deletedCount} cache files`);
@@ -185,17 +419,17 @@ export class CacheManager {
    */
   clear(): void {
     try {
-      if (!existsSync(this.cacheDir)) {
-        return;
+      for (const file of this.listCacheFiles()) {
+        unlinkSync(join(this.cacheDir, file));
       }
-
-      const files = readdirSync(this.cacheDir);
-      for (const file of files) {
-        if (file.endsWith('.json')) {
-          unlinkSync(join(this.cacheDir, file));
-        }
+      const indexPath = join(this.cacheDir, INDEX_FILE);
+      if (existsSync(indexPath)) {
+        unlinkSync(indexPath);
       }
-      
+      this.index = new Map();
+      this.totalSize = 0;
+      this.indexDirty = false;
+
       console.log('Cache cleared');
     } catch (error) {
       console.warn('Failed to clear cache:', error);
@@ -207,21 +441,10 @@ export class CacheManager {
    */
   getStats(): { totalFiles: number; totalSize: number } {
     try {
-      if (!existsSync(this.cacheDir)) {
-        return { totalFiles: 0, totalSize: 0 };
-      }
-
-      const files = readdirSync(this.cacheDir).filter(f => f.endsWith('.json'));
-      let totalSize = 0;
-
-      for (const file of files) {
-        const filePath = join(this.cacheDir, file);
-        totalSize += statSync(filePath).size;
-      }
-
+      const index = this.loadIndex();
       return {
-        totalFiles: files.length,
-        totalSize
+        totalFiles: index.size,
+        totalSize: this.totalSize
       };
     } catch (error) {
       console.warn('Failed to get cache stats:', error);
@@ -231,4 +454,4 @@ export class CacheManager {
 }
 
 // 导出单例实例
-export const cacheManager = new CacheManager();
\ No newline at end of file
+export const cacheManager = new CacheManager();
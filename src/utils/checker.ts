@@ -0,0 +1,210 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { Checker, CheckerMode, CheckResult } from '../types/index.js';
+import { compileSource, runProgram, compareOutput } from './runner.js';
+
+// 浮点比较的默认误差
+const DEFAULT_EPSILON = 1e-6;
+
+// 自定义检查器的时间限制（毫秒）
+const CUSTOM_CHECKER_TIME_LIMIT = 10000;
+
+const BUILTIN_MODES: CheckerMode[] = ['exact', 'tokens', 'float', 'yesno'];
+
+/**
+ * 按空白分词
+ */
+function tokenize(text: string): string[] {
+  return text.split(/\s+/).filter(token => token.length > 0);
+}
+
+/**
+ * 截断过长的token用于显示
+ */
+function shorten(token: string): string {
+  return token.length > 32 ? token.substring(0, 32) + '...' : token;
+}
+
+/**
+ * 逐个比较token，equals 判断单个token是否相同
+ */
+function compareTokens(
+  expected: string,
+  actual: string,
+  equals: (expected: string, actual: string) => boolean
+): CheckResult {
+  const expectedTokens = tokenize(expected);
+  const actualTokens = tokenize(actual);
+
+  const count = Math.min(expectedTokens.length, actualTokens.length);
+  for (let i = 0; i < count; i++) {
+    if (!equals(expectedTokens[i], actualTokens[i])) {
+      return {
+        ok: false,
+        message: `第 ${i + 1} 个token不一致: 期望 ${shorten(expectedTokens[i])}，实际 ${shorten(actualTokens[i])}`
+      };
+    }
+  }
+
+  if (expectedTokens.length !== actualTokens.length) {
+    return {
+      ok: false,
+      message: `token数量不一致: 期望 ${expectedTokens.length} 个，实际 ${actualTokens.length} 个`
+    };
+  }
+
+  return { ok: true };
+}
+
+/**
+ * 浮点数在绝对或相对误差范围内视为相同，非数字的token按原样比较
+ */
+function floatEquals(expected: string, actual: string, epsilon: number): boolean {
+  if (expected === actual) {
+    return true;
+  }
+  const a = Number(expected);
+  const b = Number(actual);
+  if (expected === '' || actual === '' || isNaN(a) || isNaN(b)) {
+    return false;
+  }
+  return Math.abs(a - b) <= epsilon * Math.max(1, Math.abs(a)) + 1e-15;
+}
+
+/**
+ * YES/NO 类答案忽略大小写，其余token按原样比较
+ */
+function yesNoEquals(expected: string, actual: string): boolean {
+  const normalized = expected.toLowerCase();
+  if (normalized === 'yes' || normalized === 'no') {
+    return normalized === actual.toLowerCase();
+  }
+  return expected === actual;
+}
+
+/**
+ * 运行 testlib 风格的检查器：checker <input> <output> <answer>，退出码0表示通过
+ */
+async function runCustomChecker(checker: Checker, input: string, expected: string, actual: string): Promise<CheckResult> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cf-check-'));
+  try {
+    const inputFile = path.join(dir, 'input.txt');
+    const outputFile = path.join(dir, 'output.txt');
+    const answerFile = path.join(dir, 'answer.txt');
+    fs.writeFileSync(inputFile, input, 'utf-8');
+    fs.writeFileSync(outputFile, actual, 'utf-8');
+    fs.writeFileSync(answerFile, expected, 'utf-8');
+
+    const result = await runProgram(checker.program!, '', CUSTOM_CHECKER_TIME_LIMIT, [inputFile, outputFile, answerFile]);
+    const message = (result.stderr || result.stdout).trim();
+
+    if (result.timedOut) {
+      return { ok: false, message: '检查器运行超时' };
+    }
+    if (result.exitCode !== 0) {
+      return { ok: false, message: message || `检查器退出码: ${result.exitCode ?? result.signal}` };
+    }
+    return { ok: true, message: message || undefined };
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * 检查程序输出
+ * @param checker 检查器
+ * @param input 测试输入
+ * @param expected 期望输出
+ * @param actual 实际输出
+ */
+export async function checkOutput(checker: Checker, input: string, expected: string, actual: string): Promise<CheckResult> {
+  switch (checker.mode) {
+    case 'exact':
+      return compareOutput(expected, actual) ? { ok: true } : { ok: false, message: '输出不一致' };
+    case 'float':
+      return compareTokens(expected, actual, (e, a) => floatEquals(e, a, checker.epsilon ?? DEFAULT_EPSILON));
+    case 'yesno':
+      return compareTokens(expected, actual, yesNoEquals);
+    case 'custom':
+      return runCustomChecker(checker, input, expected, actual);
+    case 'tokens':
+    default:
+      return compareTokens(expected, actual, (e, a) => e === a);
+  }
+}
+
+/**
+ * 根据题面的输出格式推断检查方式
+ * @param outputFormat 题面中的输出格式（HTML）
+ * @returns 检查方式，如 tokens、yesno、float:1e-6
+ */
+export function detectCheckerMode(outputFormat: string | undefined): string {
+  const text = (outputFormat || '')
+    .replace(/<sup[^>]*>/g, '^')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/\$\$\$/g, '')
+    .replace(/\s+/g, ' ');
+
+  if (/absolute (or|and) relative error|relative (or|and) absolute error|absolute error|relative error/i.test(text)) {
+    let epsilon = DEFAULT_EPSILON;
+    const power = text.match(/10\s*\^\s*\{?\s*-\s*(\d+)/);
+    const scientific = text.match(/\b(\d+(?:\.\d+)?)\s*e\s*-\s*(\d+)/i);
+    if (power) {
+      epsilon = Number(`1e-${power[1]}`);
+    } else if (scientific) {
+      epsilon = Number(`${scientific[1]}e-${scientific[2]}`);
+    }
+    return `float:${epsilon}`;
+  }
+
+  if (/\bin any (case|register)\b|any letter case|(upper|lower)\s*case/i.test(text) && /\byes\b/i.test(text)) {
+    return 'yesno';
+  }
+
+  return 'tokens';
+}
+
+/**
+ * 输出格式是否允许多种正确答案（需要自定义检查器才能准确判断）
+ */
+export function allowsMultipleAnswers(outputFormat: string | undefined): boolean {
+  return /print any of them|output any of them|any (valid|correct|possible) (answer|solution)|multiple (valid |correct |possible )?answers/i
+    .test((outputFormat || '').replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' '));
+}
+
+/**
+ * 根据检查方式创建检查器
+ * @param spec 检查方式：exact、tokens、yesno、float、float:<误差>，或自定义检查器的源文件路径
+ */
+export async function createChecker(spec: string): Promise<Checker> {
+  const [mode, param] = spec.split(':', 2) as [CheckerMode, string | undefined];
+
+  if (BUILTIN_MODES.includes(mode) && !fs.existsSync(spec)) {
+    if (mode !== 'float') {
+      return { mode };
+    }
+    const epsilon = param !== undefined ? parseFloat(param) : DEFAULT_EPSILON;
+    if (isNaN(epsilon) || epsilon < 0) {
+      throw new Error(`无效的浮点误差: ${param}`);
+    }
+    return { mode, epsilon };
+  }
+
+  if (!fs.existsSync(spec)) {
+    throw new Error(`未知的检查方式: ${spec}（可选 ${BUILTIN_MODES.join('、')}，或自定义检查器的源文件路径）`);
+  }
+
+  const compiled = await compileSource(spec);
+  if (!compiled.success) {
+    throw new Error(`检查器编译失败:\n${compiled.error}`);
+  }
+  return { mode: 'custom', program: compiled.program };
+}
+
+/**
+ * 检查器的描述，如 float (eps=1e-6)
+ */
+export function describeChecker(checker: Checker): string {
+  return checker.mode === 'float' ? `float (eps=${checker.epsilon})` : checker.mode;
+}
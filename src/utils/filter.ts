@@ -0,0 +1,108 @@
+import { Hack, HackFilter, Party, Submission, SubmissionFilter, User, UserFilter, UserSortField } from '../types/index.js';
+
+// 判题结果的常用简写
+const VERDICT_ALIASES: Record<string, string> = {
+  AC: 'OK',
+  ACCEPTED: 'OK',
+  WA: 'WRONG_ANSWER',
+  TLE: 'TIME_LIMIT_EXCEEDED',
+  MLE: 'MEMORY_LIMIT_EXCEEDED',
+  RE: 'RUNTIME_ERROR',
+  CE: 'COMPILATION_ERROR',
+  ILE: 'IDLENESS_LIMIT_EXCEEDED',
+  PE: 'PRESENTATION_ERROR',
+  HACKED: 'CHALLENGED'
+};
+
+// Hack结果的常用简写
+const HACK_VERDICT_ALIASES: Record<string, string> = {
+  SUCCESSFUL: 'HACK_SUCCESSFUL',
+  UNSUCCESSFUL: 'HACK_UNSUCCESSFUL'
+};
+
+/**
+ * 将判题结果或其简写转换为 API 中的名称，如 wa -> WRONG_ANSWER
+ */
+export function normalizeVerdict(verdict: string): string {
+  const upper = verdict.trim().toUpperCase().replace(/[\s-]+/g, '_');
+  return VERDICT_ALIASES[upper] || upper;
+}
+
+/**
+ * 将Hack结果或其简写转换为 API 中的名称，如 successful -> HACK_SUCCESSFUL
+ */
+export function normalizeHackVerdict(verdict: string): string {
+  const upper = verdict.trim().toUpperCase().replace(/[\s-]+/g, '_');
+  return HACK_VERDICT_ALIASES[upper] || upper;
+}
+
+/**
+ * 参赛方是否包含指定用户（忽略大小写）
+ */
+function hasMember(party: Party, handle: string): boolean {
+  const lower = handle.toLowerCase();
+  return party.members.some(member => member.handle.toLowerCase() === lower);
+}
+
+/**
+ * 参赛方是否包含用户列表中的任一用户
+ */
+function hasAnyMember(party: Party, handles: string[]): boolean {
+  return handles.some(handle => hasMember(party, handle));
+}
+
+/**
+ * 按用户、题目、判题结果和语言筛选提交记录
+ */
+export function filterSubmissions(submissions: Submission[], filter: SubmissionFilter): Submission[] {
+  const problemIndex = filter.problemIndex?.toUpperCase();
+  const verdict = filter.verdict ? normalizeVerdict(filter.verdict) : undefined;
+  const language = filter.language?.toLowerCase();
+
+  return submissions.filter(submission =>
+    (!filter.handle || hasMember(submission.author, filter.handle)) &&
+    (!filter.handles || hasAnyMember(submission.author, filter.handles)) &&
+    (!problemIndex || submission.problem.index.toUpperCase() === problemIndex) &&
+    (!verdict || submission.verdict === verdict) &&
+    (!language || submission.programmingLanguage.toLowerCase().includes(language))
+  );
+}
+
+/**
+ * 按用户（发起者或被hack的选手）、题目和结果筛选Hack记录
+ */
+export function filterHacks(hacks: Hack[], filter: HackFilter): Hack[] {
+  const problemIndex = filter.problemIndex?.toUpperCase();
+  const verdict = filter.verdict ? normalizeHackVerdict(filter.verdict) : undefined;
+
+  return hacks.filter(hack =>
+    (!filter.handle || hasMember(hack.hacker, filter.handle) || hasMember(hack.defender, filter.handle)) &&
+    (!filter.handles || hasAnyMember(hack.hacker, filter.handles) || hasAnyMember(hack.defender, filter.handles)) &&
+    (!problemIndex || hack.problem.index.toUpperCase() === problemIndex) &&
+    (!verdict || hack.verdict === verdict)
+  );
+}
+
+/**
+ * 按国家、城市（忽略大小写完全匹配）和组织（忽略大小写子串匹配）筛选用户
+ */
+export function filterUsers(users: User[], filter: UserFilter): User[] {
+  const country = filter.country?.toLowerCase();
+  const city = filter.city?.toLowerCase();
+  const organization = filter.organization?.toLowerCase();
+
+  return users.filter(user =>
+    (!country || user.country?.toLowerCase() === country) &&
+    (!city || user.city?.toLowerCase() === city) &&
+    (!organization || !!user.organization?.toLowerCase().includes(organization))
+  );
+}
+
+/**
+ * 按指定字段从高到低排序用户，相同时按用户名排序
+ */
+export function sortUsers(users: User[], field: UserSortField): User[] {
+  return [...users].sort((a, b) =>
+    (b[field] ?? 0) - (a[field] ?? 0) || a.handle.localeCompare(b.handle)
+  );
+}
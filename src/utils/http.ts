@@ -1,18 +1,27 @@
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
 import { getConfig } from '../config/index.js';
 import { ApiResponse } from '../types/index.js';
+import { signApiRequest } from './signature.js';
+import { RateLimiter } from './rate-limiter.js';
+import { RetryBudget, classifyError, finalizeRetryError, getBackoffDelay, isCallLimitExceeded } from './retry.js';
 import * as cheerio from 'cheerio';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 
+// 离线模式下拒绝网络请求时错误的 code
+export const OFFLINE_ERROR_CODE = 'OFFLINE';
+
 /**
  * HTTP客户端类
  */
 export class HttpClient {
   private client: AxiosInstance;
-  private requestQueue: Array<() => Promise<any>> = [];
-  private isProcessing = false;
+  // JSON API 和网页分别限流，互不占用令牌
+  private apiLimiter = new RateLimiter(() => getConfig().api.rateLimit);
+  private webLimiter = new RateLimiter(() => getConfig().api.rateLimit);
+  private retryBudget = new RetryBudget();
+  private offline = false;
   private cookies: string[] = [];
   private cookieFile: string;
 
@@ -40,45 +49,18 @@ export class HttpClient {
       withCredentials: true
     });
 
-    // 请求拦截器
+    // 请求拦截器（设置 CF_DEBUG 环境变量时输出请求地址）
     this.client.interceptors.request.use(
       (config) => {
-        console.log(`Making request to: ${config.url}`);
+        if (process.env.CF_DEBUG) {
+          console.log(`Making request to: ${config.url}`);
+        }
         return config;
       },
       (error) => {
         return Promise.reject(error);
       }
     );
-
-    // 响应拦截器
-    this.client.interceptors.response.use(
-      (response) => {
-        return response;
-      },
-      async (error) => {
-        const originalRequest = error.config;
-        
-        // 重试逻辑
-        const appConfig = getConfig();
-        if (error.response?.status >= 500 && !originalRequest._retry) {
-          originalRequest._retry = true;
-          
-          for (let i = 0; i < appConfig.api.retryAttempts; i++) {
-            try {
-              await this.delay(appConfig.api.retryDelay * (i + 1));
-              return await this.client(originalRequest);
-            } catch (retryError) {
-              if (i === appConfig.api.retryAttempts - 1) {
-                throw retryError;
-              }
-            }
-          }
-        }
-        
-        return Promise.reject(error);
-      }
-    );
   }
 
   /**
@@ -170,6 +152,30 @@ export class HttpClient {
     this.saveCookies();
   }
   
+  /**
+   * 设置离线模式：不发送任何网络请求，数据只从缓存读取
+   */
+  public setOffline(offline: boolean): void {
+    this.offline = offline;
+  }
+
+  /**
+   * 是否处于离线模式
+   */
+  public isOffline(): boolean {
+    return this.offline;
+  }
+
+  /**
+   * 离线模式下抛出错误（code 为 OFFLINE），用于所有访问网络的地方
+   * @param target 要访问的地址或操作，用于错误信息
+   */
+  public assertOnline(target: string): void {
+    if (this.offline) {
+      throw Object.assign(new Error(`离线模式下不访问网络: ${target}`), { code: OFFLINE_ERROR_CODE });
+    }
+  }
+
   /**
    * 从HTML中提取CSRF令牌
    */
@@ -186,22 +192,40 @@ export class HttpClient {
     }
   }
   
+  /**
+   * 地址是否属于配置的 Codeforces 网站（api.siteUrl 的主机名），相对地址按 api.baseUrl 解析
+   */
+  private isSiteUrl(url: string): boolean {
+    try {
+      const { api } = getConfig();
+      return new URL(url, api.baseUrl).hostname === new URL(api.siteUrl).hostname;
+    } catch (error) {
+      return false;
+    }
+  }
+
   /**
    * 发送HTTP请求（直接使用axios，不经过API封装）
+   * 只对 Codeforces 网站的请求发送和保存Cookie，题面图片等其他网站的请求不带登录信息
    */
   public async request<T = any>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    this.assertOnline(config.url || '');
+    const sameSite = this.isSiteUrl(config.url || '');
+
     // 添加Cookie到请求头
-    if (this.cookies.length > 0) {
+    if (sameSite && this.cookies.length > 0) {
       config.headers = config.headers || {};
       config.headers['Cookie'] = this.cookies.join('; ');
     }
     
     try {
-      const response = await this.client(config);
+      // 网络错误时只重试 GET 请求，避免重复提交表单
+      const method = (config.method || 'GET').toUpperCase();
+      const response = await this.sendWithRetry(this.webLimiter, () => this.client(config), method === 'GET');
       
       // 处理响应中的Set-Cookie头
       const setCookieHeaders = response.headers['set-cookie'];
-      if (setCookieHeaders) {
+      if (sameSite && setCookieHeaders) {
         this.updateCookies(setCookieHeaders);
       }
       
@@ -213,85 +237,78 @@ export class HttpClient {
   }
 
   /**
-   * 限流请求
+   * 等待网页请求的限流，用于不经过 request() 的页面访问（如浏览器打开题面）
    */
-  private async rateLimitedRequest<T>(requestFn: () => Promise<AxiosResponse<T>>): Promise<AxiosResponse<T>> {
-    return new Promise((resolve, reject) => {
-      this.requestQueue.push(async () => {
-        try {
-          const response = await requestFn();
-          resolve(response);
-        } catch (error) {
-          reject(error);
-        }
-      });
-      
-      this.processQueue();
-    });
+  public async throttleWeb(): Promise<void> {
+    await this.webLimiter.acquire();
   }
 
   /**
-   * 限流设置
+   * 在限流下发送请求，按错误类别重试：
+   * 网络错误、5xx 和暂时不可用的 FAILED 响应按指数退避（带随机抖动）重试，调用频率超限时暂停同一限流器的所有请求后重试，
+   * 其他错误直接抛出。重试次数受 api.retryAttempts 和全局重试预算限制，最终的错误带有 retries 字段
+   * @param limiter 请求所属的限流器
+   * @param requestFn 发送请求，每次重试都会重新调用
+   * @param retryNetworkErrors 网络错误时是否重试，服务器可能已处理请求时（如 POST）应关闭；调用频率超限时总会重试
    */
-  private setupRateLimit(): void {
-    const appConfig = getConfig();
-    const { requestInterval, burstLimit } = appConfig.api.rateLimit;
-    let requestCount = 0;
-    let lastRequestTime = 0;
-
-    this.client.interceptors.request.use(async (config) => {
-      const now = Date.now();
-      const timeSinceLastRequest = now - lastRequestTime;
-
-      // 如果请求过于频繁，等待
-      if (timeSinceLastRequest < requestInterval) {
-        await new Promise(resolve => setTimeout(resolve, requestInterval - timeSinceLastRequest));
+  private async sendWithRetry<T>(
+    limiter: RateLimiter,
+    requestFn: () => Promise<AxiosResponse<T>>,
+    retryNetworkErrors: boolean = true
+  ): Promise<AxiosResponse<T>> {
+    this.retryBudget.deposit();
+    for (let retries = 0; ; retries++) {
+      await limiter.acquire();
+      let error: any;
+      try {
+        const response = await requestFn();
+        if (!isCallLimitExceeded(response.data)) {
+          limiter.recordSuccess();
+          return response;
+        }
+        error = Object.assign(new Error((response.data as any).comment), { response });
+      } catch (requestError) {
+        error = requestError;
       }
 
-      // 突发请求限制
-      if (requestCount >= burstLimit) {
-        await new Promise(resolve => setTimeout(resolve, requestInterval));
-        requestCount = 0;
+      const category = classifyError(error);
+      const { retryAttempts, retryDelay } = getConfig().api;
+      if (category === 'permanent' || (category === 'network' && !retryNetworkErrors) || retries >= retryAttempts || !this.retryBudget.withdraw()) {
+        throw finalizeRetryError(error, retries);
       }
 
-      requestCount++;
-      lastRequestTime = Date.now();
-      return config;
-    });
-  }
-
-  /**
-   * 处理请求队列
-   */
-  private async processQueue(): Promise<void> {
-    if (this.isProcessing || this.requestQueue.length === 0) {
-      return;
-    }
-
-    this.isProcessing = true;
-    
-    const appConfig = getConfig();
-    while (this.requestQueue.length > 0) {
-      const requests = this.requestQueue.splice(0, appConfig.api.rateLimit.requests);
-      
-      await Promise.all(requests.map(request => request()));
-      
-      if (this.requestQueue.length > 0) {
-        await this.delay(appConfig.api.rateLimit.window);
+      if (category === 'rate-limit') {
+        // 限流器暂停期间 acquire 会一直等待
+        const delay = limiter.backoff();
+        if (process.env.CF_DEBUG) {
+          console.log(`Call limit exceeded, pausing requests for ${delay}ms`);
+        }
+      } else {
+        const delay = getBackoffDelay(retries, retryDelay);
+        if (process.env.CF_DEBUG) {
+          console.log(`Request failed (${error.code || error.response?.status}), retrying in ${delay}ms`);
+        }
+        await this.delay(delay);
       }
     }
-    
-    this.isProcessing = false;
   }
 
   /**
    * GET请求
+   * 配置了 api.apiKey 和 api.apiSecret 时自动添加 apiKey、time 和 apiSig 签名参数
    */
   async get<T>(url: string, params?: any): Promise<ApiResponse<T>> {
+    this.assertOnline(url);
     try {
-      const response = await this.rateLimitedRequest(() => 
-        this.client.get<ApiResponse<T>>(url, { params })
-      );
+      const response = await this.sendWithRetry(this.apiLimiter, () => {
+        const { apiKey, apiSecret } = getConfig().api;
+        // 每次发送（包括排队后）时签名，保证 time 为当前时间
+        const requestParams = apiKey && apiSecret
+          ? signApiRequest(url.replace(/^\//, ''), params || {}, apiKey, apiSecret)
+          : params;
+        // 数组参数按同名参数重复发送（a=1&a=2），与签名的参数一致
+        return this.client.get<ApiResponse<T>>(url, { params: requestParams, paramsSerializer: { indexes: null } });
+      });
       return response.data;
     } catch (error: any) {
       console.error(`GET ${url} failed:`, error.message);
@@ -303,9 +320,11 @@ export class HttpClient {
    * POST请求
    */
   async post<T>(url: string, data?: any, config?: AxiosRequestConfig): Promise<ApiResponse<T>> {
+    this.assertOnline(url);
     try {
-      const response = await this.rateLimitedRequest(() => 
-        this.client.post<ApiResponse<T>>(url, data, config)
+      const response = await this.sendWithRetry(this.apiLimiter, () => 
+        this.client.post<ApiResponse<T>>(url, data, config),
+        false
       );
       return response.data;
     } catch (error: any) {
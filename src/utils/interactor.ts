@@ -0,0 +1,134 @@
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { CompiledProgram, InteractionResult, RunResult, TranscriptEntry } from '../types/index.js';
+
+// 交互过程记录每条消息最多显示的字符数
+const MAX_ENTRY_LENGTH = 200;
+
+/**
+ * 启动程序，记录运行结果；超时由调用方统一处理
+ */
+function start(program: CompiledProgram, args: string[]): {
+  child: ChildProcessWithoutNullStreams;
+  done: Promise<Omit<RunResult, 'timeMs' | 'timedOut'>>;
+} {
+  const child = spawn(program.command, [...program.args, ...args], { cwd: program.cwd, stdio: ['pipe', 'pipe', 'pipe'] });
+  let stdout = '';
+  let stderr = '';
+  child.stdout.on('data', (chunk) => { stdout += chunk.toString(); });
+  child.stderr.on('data', (chunk) => { stderr += chunk.toString(); });
+  // 对方提前退出时写入会失败，忽略
+  child.stdin.on('error', () => {});
+
+  const done = new Promise<Omit<RunResult, 'timeMs' | 'timedOut'>>((resolve) => {
+    child.on('error', (error: any) => {
+      resolve({
+        stdout,
+        stderr: error.code === 'ENOENT' ? `找不到命令: ${program.command}` : error.message,
+        exitCode: null,
+        signal: null
+      });
+    });
+    child.on('close', (exitCode, signal) => {
+      resolve({ stdout, stderr, exitCode, signal });
+    });
+  });
+
+  return { child, done };
+}
+
+/**
+ * 运行交互题：解答的 stdout 接到交互器的 stdin，交互器的 stdout 接到解答的 stdin
+ * 交互器按 testlib 约定调用：interactor <input> <output> <answer>，退出码0表示通过
+ * @param solution 解答程序
+ * @param interactor 交互器程序
+ * @param input 交给交互器的测试数据
+ * @param answer 交给交互器的参考答案，可为空
+ * @param timeLimit 时间限制（毫秒），超时后两个程序都会被结束
+ */
+export async function runInteraction(
+  solution: CompiledProgram,
+  interactor: CompiledProgram,
+  input: string,
+  answer: string,
+  timeLimit: number
+): Promise<InteractionResult> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cf-interact-'));
+  try {
+    const inputFile = path.join(dir, 'input.txt');
+    const outputFile = path.join(dir, 'output.txt');
+    const answerFile = path.join(dir, 'answer.txt');
+    fs.writeFileSync(inputFile, input, 'utf-8');
+    fs.writeFileSync(answerFile, answer, 'utf-8');
+
+    const startTime = Date.now();
+    const transcript: TranscriptEntry[] = [];
+    const interactorProcess = start(interactor, [inputFile, outputFile, answerFile]);
+    const solutionProcess = start(solution, []);
+
+    // 转发双方的输出并按行记录交互过程，一方输出结束时关闭另一方的输入
+    const pipe = (
+      from: TranscriptEntry['from'],
+      source: ChildProcessWithoutNullStreams,
+      target: ChildProcessWithoutNullStreams
+    ) => {
+      let pending = '';
+      source.stdout.on('data', (chunk) => {
+        target.stdin.write(chunk);
+        const lines = (pending + chunk.toString()).split('\n');
+        pending = lines.pop()!;
+        for (const line of lines) {
+          transcript.push({ from, data: line, timeMs: Date.now() - startTime });
+        }
+      });
+      source.stdout.on('end', () => {
+        if (pending) {
+          transcript.push({ from, data: pending, timeMs: Date.now() - startTime });
+        }
+        target.stdin.end();
+      });
+    };
+    pipe('solution', solutionProcess.child, interactorProcess.child);
+    pipe('interactor', interactorProcess.child, solutionProcess.child);
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      solutionProcess.child.kill('SIGKILL');
+      interactorProcess.child.kill('SIGKILL');
+    }, timeLimit);
+
+    // 交互器先结束（如判定答案错误）时，解答可能仍在等待输入
+    const [solutionResult, interactorResult] = await Promise.all([
+      solutionProcess.done.then(result => ({ ...result, timeMs: Date.now() - startTime, timedOut })),
+      interactorProcess.done.then(result => {
+        solutionProcess.child.stdin.end();
+        return { ...result, timeMs: Date.now() - startTime, timedOut };
+      })
+    ]);
+    clearTimeout(timer);
+
+    return { solution: solutionResult, interactor: interactorResult, transcript, timedOut };
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * 格式化交互过程记录：> 为解答发出的消息，< 为交互器发出的消息
+ * @param transcript 交互过程记录
+ * @param maxLines 最多显示的行数，超出时只显示最后几行，过长的消息也会截断；缺省时原样全部显示
+ */
+export function formatTranscript(transcript: TranscriptEntry[], maxLines?: number): string {
+  const lines = transcript.map(entry => {
+    const text = maxLines !== undefined && entry.data.length > MAX_ENTRY_LENGTH ? entry.data.substring(0, MAX_ENTRY_LENGTH) + '…' : entry.data;
+    return `[${entry.timeMs.toString().padStart(5)}ms] ${entry.from === 'solution' ? '>' : '<'} ${text}`;
+  });
+
+  if (maxLines !== undefined && lines.length > maxLines) {
+    return [`... 省略前 ${lines.length - maxLines} 行`, ...lines.slice(-maxLines)].join('\n');
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,160 @@
+import { ContestRef, Problem, ProblemRef, StatementLanguage } from '../types/index.js';
+
+// 训练赛（gym）的比赛ID从 100001 开始，普通比赛的ID都小于该值
+const GYM_MIN_CONTEST_ID = 100000;
+
+// 网站提供的题面语言
+const STATEMENT_LANGUAGES: StatementLanguage[] = ['en', 'ru'];
+
+// 题目编号，如 A、B1
+const INDEX_PATTERN = '([A-Za-z][0-9]*)';
+
+// 三种比赛的写法，按顺序匹配
+const CONTEST_PATTERNS: { pattern: string; build: (match: RegExpMatchArray) => ContestRef }[] = [
+  // group:abc/contest/123、group:abc/123
+  {
+    pattern: 'group[:/]([\\w-]+)/(?:contest/)?(\\d+)',
+    build: match => ({ contestId: parseInt(match[2]), groupId: match[1] })
+  },
+  // gym:102345
+  {
+    pattern: 'gym[:/](\\d+)',
+    build: match => ({ contestId: parseInt(match[1]), gym: true })
+  },
+  // 1234、contest/1234，ID不小于 100001 时视为训练赛
+  {
+    pattern: '(?:contest/)?(\\d+)',
+    build: match => {
+      const contestId = parseInt(match[1]);
+      return contestId > GYM_MIN_CONTEST_ID ? { contestId, gym: true } : { contestId };
+    }
+  }
+];
+
+// 题库中的题目，只用于解析题目，先于比赛题目匹配
+const PROBLEMSET_PATTERNS: { pattern: RegExp; build: (match: RegExpMatchArray) => ProblemRef }[] = [
+  // problemset:1234/A、problemset/problem/1234/A
+  {
+    pattern: /^problemset[:/](\d+)\/?([A-Za-z][0-9]*)$/i,
+    build: match => ({ contestId: parseInt(match[1]), index: match[2].toUpperCase(), problemset: true })
+  },
+  // acmsguru:100、problemsetProblem/acmsguru/100、problemsets/acmsguru/problem/99999/100
+  {
+    pattern: /^(?:problemsetProblem\/|problemsets\/)?(?!(?:gym|group|contest|problemset)\b)([A-Za-z][\w-]*)[:/](?:\d+\/)?(\w+)$/i,
+    build: match => ({ contestId: 0, index: match[2].toUpperCase(), problemsetName: match[1].toLowerCase() })
+  }
+];
+
+/**
+ * 去掉网址中的协议、域名和 /problem/，如 https://codeforces.com/gym/102345/problem/B -> gym/102345/B
+ */
+function normalizeRef(input: string): string {
+  return input.trim()
+    .replace(/^https?:\/\/[^/]+/i, '')
+    .replace(/^\/+|\/+$/g, '')
+    .replace(/\/problem\//i, '/');
+}
+
+/**
+ * 解析比赛，支持 1234、gym:102345、group:abc/contest/123 以及对应的网址
+ * @returns 比赛引用，格式不正确时返回null
+ */
+export function parseContestRef(input: string): ContestRef | null {
+  const text = normalizeRef(input);
+  for (const { pattern, build } of CONTEST_PATTERNS) {
+    const match = text.match(new RegExp(`^${pattern}$`, 'i'));
+    if (match) {
+      return build(match);
+    }
+  }
+  return null;
+}
+
+/**
+ * 解析题目，支持 1234A、1234/A、gym:102345/B、group:abc/contest/123/C、
+ * problemset:1234/A、acmsguru:100 以及题目网址
+ * @returns 题目引用，格式不正确时返回null
+ */
+export function parseProblemRef(input: string): ProblemRef | null {
+  const text = normalizeRef(input);
+  for (const { pattern, build } of PROBLEMSET_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) {
+      return build(match);
+    }
+  }
+  for (const { pattern, build } of CONTEST_PATTERNS) {
+    const match = text.match(new RegExp(`^${pattern}/?${INDEX_PATTERN}$`, 'i'));
+    if (match) {
+      return { ...build(match), index: match[match.length - 1].toUpperCase() };
+    }
+  }
+  return null;
+}
+
+/**
+ * 格式化比赛引用，如 1234、gym:102345、group:abc/contest/123
+ */
+export function formatContestRef(ref: ContestRef): string {
+  if (ref.groupId) {
+    return `group:${ref.groupId}/contest/${ref.contestId}`;
+  }
+  return ref.gym ? `gym:${ref.contestId}` : ref.contestId.toString();
+}
+
+/**
+ * 格式化题目引用，如 1234A、gym:102345/B、group:abc/contest/123/C、acmsguru:100
+ */
+export function formatProblemRef(ref: ProblemRef): string {
+  if (ref.problemsetName) {
+    return `${ref.problemsetName}:${ref.index}`;
+  }
+  if (ref.problemset) {
+    return `problemset:${ref.contestId}/${ref.index}`;
+  }
+  return ref.groupId || ref.gym ? `${formatContestRef(ref)}/${ref.index}` : `${ref.contestId}${ref.index}`;
+}
+
+/**
+ * 比赛页面的路径：/contest/1234、/gym/102345 或 /group/abc/contest/123
+ */
+export function getContestPath(ref: ContestRef): string {
+  if (ref.groupId) {
+    return `/group/${ref.groupId}/contest/${ref.contestId}`;
+  }
+  return ref.gym ? `/gym/${ref.contestId}` : `/contest/${ref.contestId}`;
+}
+
+/**
+ * 题目页面的路径，如 /gym/102345/problem/B、/problemset/problem/1234/A、/problemsetProblem/acmsguru/100
+ */
+export function getProblemPath(ref: ProblemRef): string {
+  if (ref.problemsetName) {
+    return `/problemsetProblem/${ref.problemsetName}/${ref.index}`;
+  }
+  if (ref.problemset) {
+    return `/problemset/problem/${ref.contestId}/${ref.index}`;
+  }
+  return `${getContestPath(ref)}/problem/${ref.index}`;
+}
+
+/**
+ * 题库中题目（problemset.problems 的结果）对应的题目引用
+ */
+export function getProblemRef(problem: Problem): ProblemRef {
+  if (problem.contestId === undefined) {
+    return { contestId: 0, index: problem.index, problemsetName: problem.problemsetName };
+  }
+  return problem.contestId > GYM_MIN_CONTEST_ID
+    ? { contestId: problem.contestId, index: problem.index, gym: true }
+    : { contestId: problem.contestId, index: problem.index, problemset: true };
+}
+
+/**
+ * 解析题面语言（en 或 ru，忽略大小写）
+ * @returns 题面语言，不支持时返回null
+ */
+export function parseStatementLanguage(input: string): StatementLanguage | null {
+  const language = input.trim().toLowerCase() as StatementLanguage;
+  return STATEMENT_LANGUAGES.includes(language) ? language : null;
+}
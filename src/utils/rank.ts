@@ -0,0 +1,110 @@
+// Codeforces 段位，按积分下限从低到高排列
+interface RankBand {
+  name: string;
+  min: number;
+  color: string; // ANSI 颜色代码
+}
+
+const RANK_BANDS: RankBand[] = [
+  { name: 'newbie', min: -Infinity, color: '90' },
+  { name: 'pupil', min: 1200, color: '32' },
+  { name: 'specialist', min: 1400, color: '36' },
+  { name: 'expert', min: 1600, color: '34' },
+  { name: 'candidate master', min: 1900, color: '35' },
+  { name: 'master', min: 2100, color: '33' },
+  { name: 'international master', min: 2300, color: '33' },
+  { name: 'grandmaster', min: 2400, color: '31' },
+  { name: 'international grandmaster', min: 2600, color: '31' },
+  { name: 'legendary grandmaster', min: 3000, color: '1;31' }
+];
+
+/**
+ * 终端是否支持彩色输出（设置 NO_COLOR 时关闭）
+ */
+function useColor(): boolean {
+  return !!process.stdout.isTTY && !process.env.NO_COLOR;
+}
+
+/**
+ * 获取积分对应的段位
+ */
+export function getRankBand(rating: number): RankBand {
+  for (let i = RANK_BANDS.length - 1; i > 0; i--) {
+    if (rating >= RANK_BANDS[i].min) {
+      return RANK_BANDS[i];
+    }
+  }
+  return RANK_BANDS[0];
+}
+
+/**
+ * 获取积分对应的段位名称，如 expert
+ */
+export function getRankName(rating: number): string {
+  return getRankBand(rating).name;
+}
+
+/**
+ * 按积分对应的段位颜色着色，终端不支持彩色时原样返回
+ */
+export function colorByRating(text: string, rating: number): string {
+  return useColor() ? `\x1b[${getRankBand(rating).color}m${text}\x1b[0m` : text;
+}
+
+/**
+ * 绘制积分折线图，每行按该行积分所在段位着色，段位分界处在右侧标注段位名称
+ * @param ratings 按时间顺序排列的积分
+ * @param height 图表行数
+ * @param width 图表最大列数，比赛更多时按比例抽样
+ * @returns 图表的每一行
+ */
+export function renderRatingChart(ratings: number[], height: number = 16, width: number = 60): string[] {
+  if (ratings.length === 0) {
+    return [];
+  }
+
+  // 比赛数量超过宽度时抽样，较少时加宽每列
+  const columns = ratings.length > width
+    ? Array.from({ length: width }, (_, i) => ratings[Math.round(i * (ratings.length - 1) / (width - 1))])
+    : ratings;
+  const columnWidth = Math.max(1, Math.min(3, Math.floor(width / columns.length)));
+
+  let min = Math.min(...columns);
+  let max = Math.max(...columns);
+  if (max - min < 100) {
+    min -= 50;
+    max += 50;
+  }
+
+  const rowValue = (row: number) => max - row * (max - min) / (height - 1);
+  const rowOf = (rating: number) => Math.round((max - rating) / (max - min) * (height - 1));
+
+  // 点用 ●，与上一场比赛之间的纵向连线用 │
+  const grid: string[][] = Array.from({ length: height }, () => Array(columns.length).fill(' '));
+  columns.forEach((rating, col) => {
+    const row = rowOf(rating);
+    if (col > 0) {
+      const prevRow = rowOf(columns[col - 1]);
+      for (let r = Math.min(row, prevRow) + 1; r < Math.max(row, prevRow); r++) {
+        grid[r][col] = '│';
+      }
+    }
+    grid[row][col] = '●';
+  });
+
+  const lines: string[] = [];
+  for (let row = 0; row < height; row++) {
+    const value = rowValue(row);
+    const label = Math.round(value).toString().padStart(5) + ' ┤';
+    const cells = grid[row].map(cell => cell.padEnd(columnWidth)).join('');
+
+    // 段位的最下面一行标注段位名称
+    const band = getRankBand(value);
+    const isBandBottom = row === height - 1 || getRankBand(rowValue(row + 1)) !== band;
+    const bandName = isBandBottom ? ` ${band.name}` : '';
+
+    lines.push(colorByRating(label + cells + bandName, value));
+  }
+  lines.push('      └' + '─'.repeat(columns.length * columnWidth));
+  return lines;
+}
@@ -0,0 +1,129 @@
+/**
+ * 时钟：获取当前时间并等待，测试时可替换为手动推进的假时钟
+ */
+export interface Clock {
+  now(): number;
+  sleep(ms: number): Promise<void>;
+}
+
+/**
+ * 使用系统时间的时钟
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+};
+
+/**
+ * 限流参数，与配置中的 api.rateLimit 相同
+ */
+export interface RateLimitOptions {
+  requests: number; // 每个时间窗口补充的令牌数
+  window: number; // 时间窗口（毫秒）
+  requestInterval?: number; // 相邻两次请求的最小间隔（毫秒）
+  burstLimit?: number; // 令牌桶容量，即空闲后最多连续发出的请求数，缺省为 requests
+}
+
+// 触发 "Call limit exceeded" 后暂停的时间（毫秒），连续触发时翻倍
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 60000;
+
+/**
+ * 令牌桶限流器
+ * 令牌按 requests/window 的速率补充，最多积攒 burstLimit 个，每个请求消耗一个令牌；
+ * 同时保证相邻请求至少间隔 requestInterval。请求按调用 acquire 的顺序依次放行
+ */
+export class RateLimiter {
+  private tokens: number | null = null;
+  private lastRefill = 0;
+  private lastRequest = -Infinity;
+  private pausedUntil = 0;
+  private penalties = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param getOptions 读取限流参数，每次放行前调用，修改配置后立即生效
+   * @param clock 时钟
+   */
+  constructor(
+    private getOptions: () => RateLimitOptions,
+    private clock: Clock = systemClock
+  ) {}
+
+  /**
+   * 等待直到可以发出下一个请求
+   */
+  acquire(): Promise<void> {
+    const turn = this.queue.then(() => this.take());
+    // 排队顺序不受前一个请求失败影响
+    this.queue = turn.catch(() => {});
+    return turn;
+  }
+
+  /**
+   * 在限流下执行请求
+   */
+  async schedule<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    return task();
+  }
+
+  /**
+   * 服务器提示调用过于频繁：暂停所有排队的请求并清空令牌，连续触发时暂停时间翻倍
+   * 已在暂停中时（暂停前发出的其他请求也被拒绝）不再延长
+   * @returns 暂停的时间（毫秒）
+   */
+  backoff(): number {
+    const now = this.clock.now();
+    if (this.pausedUntil > now) {
+      return this.pausedUntil - now;
+    }
+    const delay = Math.min(BASE_BACKOFF_MS * 2 ** this.penalties, MAX_BACKOFF_MS);
+    this.penalties++;
+    this.pausedUntil = now + delay;
+    this.tokens = 0;
+    this.lastRefill = this.pausedUntil;
+    return delay;
+  }
+
+  /**
+   * 请求成功后重置暂停时间的翻倍
+   */
+  recordSuccess(): void {
+    this.penalties = 0;
+  }
+
+  /**
+   * 取出一个令牌，不足时等待补充
+   */
+  private async take(): Promise<void> {
+    for (;;) {
+      const options = this.getOptions();
+      const capacity = Math.max(1, options.burstLimit ?? options.requests);
+      const rate = options.requests / options.window;
+      const now = this.clock.now();
+
+      // 首次使用时令牌桶是满的
+      if (this.tokens === null) {
+        this.tokens = capacity;
+        this.lastRefill = now;
+      }
+      if (now > this.lastRefill) {
+        this.tokens = Math.min(capacity, this.tokens + (now - this.lastRefill) * rate);
+        this.lastRefill = now;
+      }
+
+      const wait = Math.max(
+        this.pausedUntil - now,
+        this.lastRequest + (options.requestInterval || 0) - now,
+        this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / rate)
+      );
+      if (wait <= 0) {
+        this.tokens -= 1;
+        this.lastRequest = now;
+        return;
+      }
+      await this.clock.sleep(wait);
+    }
+  }
+}
@@ -0,0 +1,190 @@
+import { codeforcesAPI } from '../api/codeforces.js';
+import { RanklistRow, RatingChange, RatingPrediction } from '../types/index.js';
+
+// 没有积分记录的用户按 1400 计算（Codeforces 新账号的内部初始积分）
+const DEFAULT_RATING = 1400;
+
+// 二分查找期望积分的范围
+const MIN_RATING = 1;
+const MAX_RATING = 8000;
+
+// user.info 每次请求的用户数量
+const USER_INFO_BATCH = 300;
+
+// 参与计算的选手
+interface RatedContestant {
+  handle: string;
+  points: number;
+  penalty: number;
+  rating: number;
+}
+
+/**
+ * 积分为 a 的选手战胜积分为 b 的选手的概率
+ */
+function getEloWinProbability(a: number, b: number): number {
+  return 1 / (1 + Math.pow(10, (b - a) / 400));
+}
+
+/**
+ * 计算 Codeforces 的积分变化
+ * 算法与官方公布的一致：根据期望名次与实际名次的几何平均数求出目标积分，
+ * 变化量为目标积分与当前积分之差的一半，最后做两次总和修正
+ * @param contestants 选手的得分、罚时和赛前积分
+ */
+export function calculateRatingChanges(contestants: RatedContestant[]): RatingPrediction[] {
+  const n = contestants.length;
+  if (n === 0) {
+    return [];
+  }
+
+  // 按得分和罚时排名，并列选手取并列区间的最后一名
+  const sorted = [...contestants].sort((a, b) => b.points - a.points || a.penalty - b.penalty);
+  const ranks = new Map<RatedContestant, number>();
+  for (let first = 0; first < n;) {
+    let last = first;
+    while (last + 1 < n && sorted[last + 1].points === sorted[first].points && sorted[last + 1].penalty === sorted[first].penalty) {
+      last++;
+    }
+    for (let i = first; i <= last; i++) {
+      ranks.set(sorted[i], last + 1);
+    }
+    first = last + 1;
+  }
+
+  // 积分为整数，按积分值预先计算期望名次：seed[r] = 1 + Σ P(对手战胜积分为 r 的选手)
+  const minRating = contestants.reduce((min, c) => Math.min(min, c.rating), MIN_RATING);
+  const maxRating = contestants.reduce((max, c) => Math.max(max, c.rating), MAX_RATING);
+  const ratingCounts = new Map<number, number>();
+  contestants.forEach(c => ratingCounts.set(c.rating, (ratingCounts.get(c.rating) || 0) + 1));
+
+  // 胜率只与积分差有关，按积分差预先计算
+  const span = maxRating - minRating;
+  const winProbability = new Float64Array(2 * span + 1);
+  for (let d = -span; d <= span; d++) {
+    winProbability[d + span] = getEloWinProbability(d, 0);
+  }
+
+  const seedTable = new Float64Array(span + 1);
+  const distinctRatings = [...ratingCounts.entries()];
+  for (let r = minRating; r <= maxRating; r++) {
+    let seed = 1;
+    for (const [rating, count] of distinctRatings) {
+      seed += count * winProbability[rating - r + span];
+    }
+    seedTable[r - minRating] = seed;
+  }
+
+  const getSeed = (rating: number) => seedTable[rating - minRating];
+
+  const results = sorted.map(contestant => {
+    const rank = ranks.get(contestant)!;
+    // 自身的期望名次不计入与自己的对局（胜率为0.5）
+    const seed = getSeed(contestant.rating) - 0.5;
+    const midRank = Math.sqrt(rank * seed);
+
+    // 二分查找期望名次等于 midRank 的积分
+    let left = MIN_RATING;
+    let right = MAX_RATING;
+    while (right - left > 1) {
+      const mid = Math.floor((left + right) / 2);
+      if (getSeed(mid) < midRank) {
+        right = mid;
+      } else {
+        left = mid;
+      }
+    }
+
+    return {
+      handle: contestant.handle,
+      rank,
+      oldRating: contestant.rating,
+      delta: Math.trunc((left - contestant.rating) / 2),
+      newRating: 0
+    };
+  });
+
+  // 修正一：所有人的变化总和略小于0
+  const totalDelta = results.reduce((sum, r) => sum + r.delta, 0);
+  const inc = Math.trunc(-totalDelta / n) - 1;
+  results.forEach(r => { r.delta += inc; });
+
+  // 修正二：积分最高的 4√n 人的变化总和为0
+  const byRating = [...results].sort((a, b) => b.oldRating - a.oldRating);
+  const zeroSumCount = Math.min(4 * Math.round(Math.sqrt(n)), n);
+  const topDelta = byRating.slice(0, zeroSumCount).reduce((sum, r) => sum + r.delta, 0);
+  const topInc = Math.min(Math.max(Math.trunc(-topDelta / zeroSumCount), -10), 0);
+  results.forEach(r => {
+    r.delta += topInc;
+    r.newRating = r.oldRating + r.delta;
+  });
+
+  return results;
+}
+
+/**
+ * 获取选手的赛前积分
+ * 比赛积分已更新时使用 contest.ratingChanges，否则使用 user.info 中的当前积分
+ * @returns handle -> 赛前积分，以及积分已更新时的实际变化
+ */
+async function getRatingsBeforeContest(contestId: number, handles: string[]): Promise<{
+  ratings: Map<string, number>;
+  actualDeltas: Map<string, number> | null;
+}> {
+  const ratingChanges: RatingChange[] = await codeforcesAPI.getContestRatingChanges(contestId).catch(() => []);
+  if (ratingChanges.length > 0) {
+    return {
+      ratings: new Map(ratingChanges.map(change => [change.handle, change.oldRating])),
+      actualDeltas: new Map(ratingChanges.map(change => [change.handle, change.newRating - change.oldRating]))
+    };
+  }
+
+  const ratings = new Map<string, number>();
+  for (let i = 0; i < handles.length; i += USER_INFO_BATCH) {
+    const users = await codeforcesAPI.getUserInfo(handles.slice(i, i + USER_INFO_BATCH));
+    users.forEach(user => ratings.set(user.handle, user.rating ?? DEFAULT_RATING));
+  }
+  return { ratings, actualDeltas: null };
+}
+
+/**
+ * 预测比赛的积分变化
+ * @param contestId 竞赛ID
+ * @param rows 完整排名，缺省时重新获取
+ * @returns handle -> 预测结果（只包含正式参赛的个人选手）
+ */
+export async function predictContestRatings(contestId: number, rows?: RanklistRow[]): Promise<Map<string, RatingPrediction>> {
+  if (!rows) {
+    rows = (await codeforcesAPI.getContestStandings(contestId)).rows;
+  }
+
+  // 只有正式参赛的个人选手参与积分计算
+  const rated = rows.filter(row => row.party.participantType === 'CONTESTANT' && row.party.members.length === 1);
+  const handles = rated.map(row => row.party.members[0].handle);
+  const { ratings, actualDeltas } = await getRatingsBeforeContest(contestId, handles);
+
+  const contestants: RatedContestant[] = rated
+    .filter(row => !actualDeltas || ratings.has(row.party.members[0].handle))
+    .map(row => ({
+      handle: row.party.members[0].handle,
+      points: row.points,
+      penalty: row.penalty,
+      rating: ratings.get(row.party.members[0].handle) ?? DEFAULT_RATING
+    }));
+
+  const predictions = new Map<string, RatingPrediction>();
+  calculateRatingChanges(contestants).forEach(prediction => {
+    if (actualDeltas?.has(prediction.handle)) {
+      prediction.actualDelta = actualDeltas.get(prediction.handle);
+    }
+    predictions.set(prediction.handle, prediction);
+  });
+  return predictions;
+}
+
+/**
+ * 格式化积分变化，如 +15、-7
+ */
+export function formatDelta(delta: number): string {
+  return delta > 0 ? `+${delta}` : delta.toString();
+}
@@ -0,0 +1,127 @@
+/**
+ * 请求失败的类别
+ * network：网络错误、超时、服务器 5xx 和暂时不可用的 FAILED 响应，稍后重试可能成功
+ * rate-limit：调用过于频繁，需要暂停后重试
+ * permanent：用户不存在、比赛未开始等，重试也不会成功
+ */
+export type ErrorCategory = 'network' | 'rate-limit' | 'permanent';
+
+// 可以重试的网络错误码
+const TRANSIENT_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED', // axios 请求超时
+  'ETIMEDOUT',
+  'ESOCKETTIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'ERR_NETWORK'
+]);
+
+// 表示服务器暂时不可用的 FAILED 说明，即使状态码为 4xx 也可以重试
+const TRANSIENT_FAILED_COMMENTS = [
+  /temporarily unavailable/i,
+  /try again later/i,
+  /internal server error/i,
+  /service unavailable/i
+];
+
+// 指数退避的最长等待时间（毫秒）
+const MAX_RETRY_DELAY_MS = 30000;
+
+// 重试预算：每个请求存入的额度和始终可用的最低额度
+const BUDGET_RATIO = 0.2;
+const BUDGET_MIN_RETRIES = 10;
+
+/**
+ * 是否为 Codeforces 的调用频率超限响应
+ */
+export function isCallLimitExceeded(data: any): boolean {
+  return data?.status === 'FAILED' && typeof data.comment === 'string' && /call limit exceeded/i.test(data.comment);
+}
+
+/**
+ * 是否为服务器暂时不可用的 FAILED 响应
+ */
+export function isTransientFailure(data: any): boolean {
+  return data?.status === 'FAILED' && typeof data.comment === 'string' && TRANSIENT_FAILED_COMMENTS.some(pattern => pattern.test(data.comment));
+}
+
+/**
+ * 判断请求失败的类别
+ * @param error axios 抛出的错误，或带有 response 的错误
+ */
+export function classifyError(error: any): ErrorCategory {
+  const response = error?.response;
+  if (!response) {
+    return TRANSIENT_ERROR_CODES.has(error?.code) ? 'network' : 'permanent';
+  }
+  if (response.status === 429 || isCallLimitExceeded(response.data)) {
+    return 'rate-limit';
+  }
+  return response.status >= 500 || isTransientFailure(response.data) ? 'network' : 'permanent';
+}
+
+/**
+ * 第 attempt 次重试前的等待时间：上限按指数增长，实际在上限的一半到上限之间随机取值，避免多个请求同时重试
+ * @param attempt 已重试的次数，从0开始
+ * @param baseDelay 基础等待时间（毫秒）
+ * @param random 返回 [0, 1) 随机数的函数
+ */
+export function getBackoffDelay(attempt: number, baseDelay: number, random: () => number = Math.random): number {
+  const ceiling = Math.min(MAX_RETRY_DELAY_MS, baseDelay * 2 ** attempt);
+  return Math.round(ceiling / 2 + random() * ceiling / 2);
+}
+
+/**
+ * 重试预算：重试次数不超过请求数的一定比例（另有少量保底额度），
+ * 服务器整体不可用时不会因为每个请求都重试而成倍增加请求
+ */
+export class RetryBudget {
+  private balance: number;
+
+  constructor(
+    private ratio: number = BUDGET_RATIO,
+    private minRetries: number = BUDGET_MIN_RETRIES
+  ) {
+    this.balance = minRetries;
+  }
+
+  /**
+   * 记录一个新请求，增加可用额度
+   */
+  deposit(): void {
+    this.balance = Math.min(this.balance + this.ratio, this.minRetries * 2);
+  }
+
+  /**
+   * 申请一次重试
+   * @returns 额度是否足够
+   */
+  withdraw(): boolean {
+    if (this.balance < 1) {
+      return false;
+    }
+    this.balance -= 1;
+    return true;
+  }
+}
+
+/**
+ * 整理最终失败的错误：API 返回 FAILED 时使用其说明作为错误信息，并记录重试次数
+ * @param error 最后一次请求的错误
+ * @param retries 已重试的次数
+ */
+export function finalizeRetryError(error: any, retries: number): any {
+  const comment = error?.response?.data?.status === 'FAILED' ? error.response.data.comment : undefined;
+  if (comment) {
+    error.message = comment;
+  }
+  error.retries = retries;
+  if (retries > 0) {
+    error.message = `${error.message}（已重试 ${retries} 次）`;
+  }
+  return error;
+}
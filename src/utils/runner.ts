@@ -0,0 +1,263 @@
+import { spawn } from 'child_process';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { CompiledProgram, CompileResult, RunResult } from '../types/index.js';
+
+/**
+ * 语言编译/运行配置
+ */
+interface LanguageConfig {
+  name: string;
+  // 编译命令，返回 [命令, ...参数]；解释型语言为空
+  compile?: (source: string, output: string, buildDir: string) => string[];
+  // 运行命令
+  run: (source: string, output: string, buildDir: string) => string[];
+}
+
+const EXE_SUFFIX = process.platform === 'win32' ? '.exe' : '';
+
+// 按文件扩展名索引的语言配置
+const LANGUAGES: Record<string, LanguageConfig> = {
+  cpp: {
+    name: 'C++',
+    compile: (source, output) => ['g++', '-std=c++17', '-O2', '-o', output, source],
+    run: (source, output) => [output]
+  },
+  c: {
+    name: 'C',
+    compile: (source, output) => ['gcc', '-std=c11', '-O2', '-o', output, source, '-lm'],
+    run: (source, output) => [output]
+  },
+  java: {
+    name: 'Java',
+    compile: (source, output, buildDir) => ['javac', '-encoding', 'UTF-8', '-d', buildDir, source],
+    run: (source, output, buildDir) => ['java', '-Xss64m', '-cp', buildDir, path.basename(source, '.java')]
+  },
+  py: {
+    name: 'Python',
+    run: (source) => [process.platform === 'win32' ? 'python' : 'python3', source]
+  },
+  rs: {
+    name: 'Rust',
+    compile: (source, output) => ['rustc', '-O', '--edition', '2021', '-o', output, source],
+    run: (source, output) => [output]
+  },
+  go: {
+    name: 'Go',
+    compile: (source, output) => ['go', 'build', '-o', output, source],
+    run: (source, output) => [output]
+  },
+  js: {
+    name: 'JavaScript',
+    run: (source) => ['node', source]
+  }
+};
+
+// 扩展名别名
+const EXTENSION_ALIASES: Record<string, string> = {
+  cc: 'cpp',
+  cxx: 'cpp',
+  'c++': 'cpp'
+};
+
+/**
+ * 将扩展名别名转换为语言扩展名，如 cc、cxx 转换为 cpp
+ */
+export function normalizeExtension(ext: string): string {
+  const lower = ext.toLowerCase();
+  return EXTENSION_ALIASES[lower] || lower;
+}
+
+/**
+ * 获取文件对应的语言扩展名
+ */
+function resolveExtension(file: string): string {
+  return normalizeExtension(path.extname(file).substring(1));
+}
+
+/**
+ * 获取支持的源文件扩展名
+ */
+export function getSupportedExtensions(): string[] {
+  return [...Object.keys(LANGUAGES), ...Object.keys(EXTENSION_ALIASES)];
+}
+
+/**
+ * 编译源文件
+ * 编译产物按源码内容哈希缓存在临时目录中，源码未修改时不会重复编译
+ */
+export async function compileSource(file: string): Promise<CompileResult> {
+  const sourcePath = path.resolve(file);
+  if (!fs.existsSync(sourcePath)) {
+    return { success: false, error: `文件不存在: ${file}` };
+  }
+
+  const ext = resolveExtension(sourcePath);
+  const language = LANGUAGES[ext];
+  if (!language) {
+    return {
+      success: false,
+      error: `不支持的语言: .${ext}（支持: ${getSupportedExtensions().join(', ')}）`
+    };
+  }
+
+  const content = fs.readFileSync(sourcePath, 'utf-8');
+  const hash = createHash('md5').update(sourcePath).update(content).digest('hex');
+  const buildDir = path.join(os.tmpdir(), 'cf-tool', 'build', hash);
+  if (!fs.existsSync(buildDir)) {
+    fs.mkdirSync(buildDir, { recursive: true });
+  }
+
+  // Java 要求文件名与 public class 一致，复制到构建目录并按类名命名
+  let source = sourcePath;
+  if (ext === 'java') {
+    const classMatch = content.match(/public\s+(?:final\s+)?class\s+(\w+)/);
+    source = path.join(buildDir, `${classMatch ? classMatch[1] : 'Main'}.java`);
+    fs.writeFileSync(source, content);
+  }
+
+  const output = path.join(buildDir, `main${EXE_SUFFIX}`);
+  const [command, ...args] = language.run(source, output, buildDir);
+  const program: CompiledProgram = { language: language.name, command, args, cwd: path.dirname(sourcePath) };
+
+  if (!language.compile) {
+    return { success: true, program };
+  }
+
+  // 已有编译产物，直接复用
+  const marker = path.join(buildDir, '.compiled');
+  if (fs.existsSync(marker)) {
+    return { success: true, program };
+  }
+
+  const [compiler, ...compileArgs] = language.compile(source, output, buildDir);
+  const result = await execute(compiler, compileArgs, '', 60000, buildDir);
+
+  if (result.timedOut) {
+    return { success: false, error: '编译超时' };
+  }
+  if (result.exitCode !== 0) {
+    return { success: false, error: result.stderr || result.stdout || `编译器退出码: ${result.exitCode}` };
+  }
+
+  fs.writeFileSync(marker, '');
+  return { success: true, program };
+}
+
+/**
+ * 运行已编译的程序
+ * @param program 编译结果
+ * @param input 标准输入
+ * @param timeLimit 时间限制（毫秒）
+ * @param args 额外的命令行参数，如生成器的随机种子
+ */
+export function runProgram(program: CompiledProgram, input: string, timeLimit: number, args: string[] = []): Promise<RunResult> {
+  return execute(program.command, [...program.args, ...args], input, timeLimit, program.cwd);
+}
+
+/**
+ * 执行命令并收集输出
+ */
+function execute(command: string, args: string[], input: string, timeLimit: number, cwd?: string): Promise<RunResult> {
+  return new Promise((resolve) => {
+    const startTime = Date.now();
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+
+    const child = spawn(command, args, { cwd, stdio: ['pipe', 'pipe', 'pipe'] });
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGKILL');
+    }, timeLimit);
+
+    child.stdout.on('data', (chunk) => { stdout += chunk.toString(); });
+    child.stderr.on('data', (chunk) => { stderr += chunk.toString(); });
+
+    child.on('error', (error: any) => {
+      clearTimeout(timer);
+      resolve({
+        stdout,
+        stderr: error.code === 'ENOENT' ? `找不到命令: ${command}` : error.message,
+        exitCode: null,
+        signal: null,
+        timeMs: Date.now() - startTime,
+        timedOut: false
+      });
+    });
+
+    child.on('close', (exitCode, signal) => {
+      clearTimeout(timer);
+      resolve({
+        stdout,
+        stderr,
+        exitCode,
+        signal,
+        timeMs: Date.now() - startTime,
+        timedOut
+      });
+    });
+
+    // 程序可能不读取输入就退出，忽略写入错误
+    child.stdin.on('error', () => {});
+    child.stdin.end(input);
+  });
+}
+
+/**
+ * 解析题面中的时间限制，如 "2 seconds"、"500 milliseconds"
+ * @returns 毫秒数，无法解析时返回默认值
+ */
+export function parseTimeLimit(timeLimit: string, defaultMs: number = 2000): number {
+  const match = timeLimit?.match(/([\d.]+)\s*(second|millisecond)s?/i);
+  if (!match) {
+    return defaultMs;
+  }
+  const value = parseFloat(match[1]);
+  return match[2].toLowerCase() === 'millisecond' ? value : value * 1000;
+}
+
+/**
+ * 比较程序输出与期望输出（忽略行尾空白和末尾空行）
+ */
+export function compareOutput(expected: string, actual: string): boolean {
+  const normalize = (text: string) => text
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .trimEnd();
+  return normalize(expected) === normalize(actual);
+}
+
+/**
+ * 生成期望输出与实际输出的逐行对比
+ */
+export function formatDiff(expected: string, actual: string): string {
+  const expectedLines = expected.replace(/\r\n/g, '\n').trimEnd().split('\n');
+  const actualLines = actual.replace(/\r\n/g, '\n').trimEnd().split('\n');
+  const lineCount = Math.max(expectedLines.length, actualLines.length);
+  const lines: string[] = [];
+
+  for (let i = 0; i < lineCount; i++) {
+    const expectedLine = expectedLines[i];
+    const actualLine = actualLines[i];
+    const lineNo = (i + 1).toString().padStart(4);
+
+    if (expectedLine !== undefined && actualLine !== undefined && expectedLine.trimEnd() === actualLine.trimEnd()) {
+      lines.push(`${lineNo}   ${expectedLine}`);
+    } else {
+      if (expectedLine !== undefined) {
+        lines.push(`${lineNo} - ${expectedLine}`);
+      }
+      if (actualLine !== undefined) {
+        lines.push(`${lineNo} + ${actualLine}`);
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
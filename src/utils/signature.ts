@@ -0,0 +1,54 @@
+import { createHash, randomInt } from 'crypto';
+
+// 请求参数（值为 undefined/null 的参数不会发送，也不参与签名；数组表示同名参数出现多次）
+export type ApiParams = Record<string, string | number | boolean | (string | number)[] | undefined | null>;
+
+/**
+ * 生成6位随机前缀
+ */
+function randomPrefix(): string {
+  return randomInt(0, 1000000).toString().padStart(6, '0');
+}
+
+/**
+ * 计算 apiSig：rand + sha512hex("rand/methodName?param1=value1&...#secret")
+ * 参数先按名称、再按值的字典序排列，值使用原文（不做 URL 编码）
+ * @param rand 6位随机前缀
+ * @param methodName API方法名，如 contest.hacks
+ * @param params 包括 apiKey 和 time 在内的全部参数
+ * @param apiSecret API密钥对应的 secret
+ */
+export function computeApiSig(rand: string, methodName: string, params: ApiParams, apiSecret: string): string {
+  const query = Object.entries(params)
+    .flatMap(([key, value]) => (Array.isArray(value) ? value : [value]).map(item => [key, item] as const))
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => [key, String(value)])
+    .sort(([keyA, valueA], [keyB, valueB]) => keyA < keyB ? -1 : keyA > keyB ? 1 : valueA < valueB ? -1 : valueA > valueB ? 1 : 0)
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+
+  const hash = createHash('sha512').update(`${rand}/${methodName}?${query}#${apiSecret}`).digest('hex');
+  return rand + hash;
+}
+
+/**
+ * 为API请求添加签名参数 apiKey、time 和 apiSig
+ * @param methodName API方法名，如 user.friends
+ * @param params 原始请求参数
+ * @param apiKey API key
+ * @param apiSecret API secret
+ * @param time 请求时间（Unix秒），默认当前时间，与服务器相差超过5分钟时请求会被拒绝
+ * @param rand 6位随机前缀，默认随机生成
+ * @returns 签名后的请求参数
+ */
+export function signApiRequest(
+  methodName: string,
+  params: ApiParams,
+  apiKey: string,
+  apiSecret: string,
+  time: number = Math.floor(Date.now() / 1000),
+  rand: string = randomPrefix()
+): ApiParams {
+  const signedParams: ApiParams = { ...params, apiKey, time };
+  return { ...signedParams, apiSig: computeApiSig(rand, methodName, signedParams, apiSecret) };
+}
@@ -0,0 +1,168 @@
+import { getConfig, updateConfig } from '../config/index.js';
+import { ProblemWorkspaceMeta, SourceTemplate, TemplateVariables } from '../types/index.js';
+
+// 内置的源文件模板，按扩展名索引，未配置模板时使用
+const BUILTIN_TEMPLATES: Record<string, string> = {
+  cpp: `#include <bits/stdc++.h>
+using namespace std;
+
+int main() {
+    ios::sync_with_stdio(false);
+    cin.tie(nullptr);
+
+    return 0;
+}
+`,
+  c: `#include <stdio.h>
+
+int main(void) {
+
+    return 0;
+}
+`,
+  java: `import java.util.*;
+import java.io.*;
+
+public class Main {
+    public static void main(String[] args) throws IOException {
+        BufferedReader br = new BufferedReader(new InputStreamReader(System.in));
+    }
+}
+`,
+  py: `import sys
+input = sys.stdin.readline
+
+
+def main():
+    pass
+
+
+main()
+`,
+  rs: `use std::io::{self, Read};
+
+fn main() {
+    let mut input = String::new();
+    io::stdin().read_to_string(&mut input).unwrap();
+}
+`,
+  go: `package main
+
+import (
+	"bufio"
+	"fmt"
+	"os"
+)
+
+func main() {
+	reader := bufio.NewReader(os.Stdin)
+	writer := bufio.NewWriter(os.Stdout)
+	defer writer.Flush()
+	_ = reader
+	fmt.Fprintln(writer)
+}
+`
+};
+
+// 支持的占位符
+export const TEMPLATE_PLACEHOLDERS: (keyof TemplateVariables)[] = [
+  'handle',
+  'contestId',
+  'index',
+  'problemName',
+  'date',
+  'url',
+  'timeLimit',
+  'memoryLimit'
+];
+
+/**
+ * 格式化当前时间，如 2024-01-31 20:05
+ */
+function formatDate(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * 根据题目信息生成占位符取值
+ */
+export function buildTemplateVariables(meta?: Partial<ProblemWorkspaceMeta>): TemplateVariables {
+  return {
+    handle: getConfig().handle || '',
+    contestId: meta?.contestId?.toString() || '',
+    index: meta?.index || '',
+    problemName: meta?.name || '',
+    date: formatDate(new Date()),
+    url: meta?.url || '',
+    timeLimit: meta?.timeLimit || '',
+    memoryLimit: meta?.memoryLimit || ''
+  };
+}
+
+/**
+ * 替换模板中的 {{placeholder}}，未知占位符保持原样
+ */
+export function renderTemplate(content: string, variables: TemplateVariables): string {
+  return content.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => {
+    return name in variables ? variables[name as keyof TemplateVariables] : match;
+  });
+}
+
+/**
+ * 获取所有已保存的模板
+ */
+export function getTemplates(): Record<string, SourceTemplate> {
+  return getConfig().templates || {};
+}
+
+/**
+ * 按名称获取模板
+ */
+export function getTemplate(name: string): SourceTemplate | null {
+  return getTemplates()[name] || null;
+}
+
+/**
+ * 获取语言对应的默认模板内容
+ * 优先使用配置中的默认模板，其次使用内置模板
+ */
+export function getDefaultTemplateContent(language: string): string {
+  const defaultName = getConfig().defaultTemplates?.[language];
+  const template = defaultName ? getTemplate(defaultName) : null;
+  return template ? template.content : BUILTIN_TEMPLATES[language] || '';
+}
+
+/**
+ * 保存模板
+ * @param makeDefault 是否设为该语言的默认模板
+ */
+export function saveTemplate(name: string, template: SourceTemplate, makeDefault: boolean): void {
+  const config = getConfig();
+  const templates = { ...config.templates, [name]: template };
+  const defaultTemplates = { ...config.defaultTemplates };
+  if (makeDefault) {
+    defaultTemplates[template.language] = name;
+  }
+  updateConfig({ templates, defaultTemplates });
+}
+
+/**
+ * 删除模板，同时移除对应的默认模板设置
+ * @returns 模板是否存在
+ */
+export function removeTemplate(name: string): boolean {
+  const config = getConfig();
+  if (!config.templates?.[name]) {
+    return false;
+  }
+
+  const templates = { ...config.templates };
+  delete templates[name];
+
+  const defaultTemplates = Object.fromEntries(
+    Object.entries(config.defaultTemplates || {}).filter(([, templateName]) => templateName !== name)
+  );
+  updateConfig({ templates, defaultTemplates });
+  return true;
+}
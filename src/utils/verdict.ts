@@ -0,0 +1,141 @@
+import { codeforcesAPI } from '../api/codeforces.js';
+import { Submission } from '../types/index.js';
+
+/**
+ * 判题结果对应的进程退出码
+ * 0 表示通过，1 保留给一般错误
+ */
+export const VERDICT_EXIT_CODES: Record<string, number> = {
+  OK: 0,
+  WRONG_ANSWER: 2,
+  TIME_LIMIT_EXCEEDED: 3,
+  MEMORY_LIMIT_EXCEEDED: 4,
+  RUNTIME_ERROR: 5,
+  COMPILATION_ERROR: 6
+};
+
+// 其他未通过的判题结果
+export const OTHER_REJECTED_EXIT_CODE = 7;
+// 等待判题结果超时
+export const WATCH_TIMEOUT_EXIT_CODE = 8;
+
+// 判题结果的显示名称
+const VERDICT_NAMES: Record<string, string> = {
+  OK: 'Accepted',
+  FAILED: 'Failed',
+  PARTIAL: 'Partial result',
+  COMPILATION_ERROR: 'Compilation error',
+  RUNTIME_ERROR: 'Runtime error',
+  WRONG_ANSWER: 'Wrong answer',
+  PRESENTATION_ERROR: 'Presentation error',
+  TIME_LIMIT_EXCEEDED: 'Time limit exceeded',
+  MEMORY_LIMIT_EXCEEDED: 'Memory limit exceeded',
+  IDLENESS_LIMIT_EXCEEDED: 'Idleness limit exceeded',
+  SECURITY_VIOLATED: 'Security violated',
+  CRASHED: 'Denial of judgement',
+  INPUT_PREPARATION_CRASHED: 'Input preparation failed',
+  CHALLENGED: 'Hacked',
+  SKIPPED: 'Skipped',
+  REJECTED: 'Rejected'
+};
+
+// 报告失败测试点编号的判题结果
+const VERDICTS_WITH_TEST = new Set([
+  'RUNTIME_ERROR',
+  'WRONG_ANSWER',
+  'PRESENTATION_ERROR',
+  'TIME_LIMIT_EXCEEDED',
+  'MEMORY_LIMIT_EXCEEDED',
+  'IDLENESS_LIMIT_EXCEEDED'
+]);
+
+/**
+ * 判断提交是否已有最终结果
+ */
+export function isFinalVerdict(submission: Submission): boolean {
+  return !!submission.verdict && submission.verdict !== 'TESTING';
+}
+
+/**
+ * 格式化提交的当前状态，如 "Running on test 17"、"Wrong answer on test 3"
+ */
+export function formatSubmissionStatus(submission: Submission): string {
+  const verdict = submission.verdict;
+
+  if (!verdict) {
+    return 'In queue';
+  }
+
+  if (verdict === 'TESTING') {
+    return submission.passedTestCount > 0
+      ? `Running on test ${submission.passedTestCount + 1}`
+      : 'Running...';
+  }
+
+  if (verdict === 'OK' && submission.testset === 'PRETESTS') {
+    return 'Pretests passed';
+  }
+
+  const name = VERDICT_NAMES[verdict] || verdict;
+  if (VERDICTS_WITH_TEST.has(verdict)) {
+    return `${name} on test ${submission.passedTestCount + 1}`;
+  }
+  return name;
+}
+
+/**
+ * 获取判题结果对应的退出码
+ */
+export function getVerdictExitCode(verdict?: string): number {
+  if (!verdict) {
+    return WATCH_TIMEOUT_EXIT_CODE;
+  }
+  return VERDICT_EXIT_CODES[verdict] ?? OTHER_REJECTED_EXIT_CODE;
+}
+
+export interface WatchSubmissionOptions {
+  handle: string;
+  contestId: number;
+  problemIndex: string;
+  submissionId?: number; // 已知的提交ID，未知时按题目匹配ID大于 afterId 的提交
+  afterId: number; // 提交前最新的提交ID，不大于此值的提交（包括之前的同题提交）不会被匹配
+  interval?: number; // 轮询间隔（毫秒）
+  timeout?: number; // 最长等待时间（毫秒）
+  onUpdate?: (submission: Submission) => void;
+}
+
+/**
+ * 轮询用户提交记录，直到提交得到最终结果
+ * 每次都绕过缓存直接请求 user.status
+ * @returns 最终的提交记录；超时或未找到提交时返回最后一次看到的记录或null
+ */
+export async function watchSubmission(options: WatchSubmissionOptions): Promise<Submission | null> {
+  const interval = options.interval ?? 2000;
+  const deadline = Date.now() + (options.timeout ?? 5 * 60 * 1000);
+  let latest: Submission | null = null;
+
+  while (Date.now() < deadline) {
+    try {
+      const submissions = await codeforcesAPI.getUserSubmissions(options.handle, 1, 10, false);
+      const found = submissions.find(s => options.submissionId
+        ? s.id === options.submissionId
+        : s.contestId === options.contestId &&
+          s.problem.index.toUpperCase() === options.problemIndex.toUpperCase() &&
+          s.id > options.afterId);
+
+      if (found) {
+        latest = found;
+        options.onUpdate?.(found);
+        if (isFinalVerdict(found)) {
+          return found;
+        }
+      }
+    } catch (error) {
+      // 单次轮询失败不影响后续轮询
+    }
+
+    await new Promise(resolve => setTimeout(resolve, interval));
+  }
+
+  return latest;
+}
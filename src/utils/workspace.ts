@@ -0,0 +1,211 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProblemRef, ProblemStatement, ProblemWorkspaceMeta, Sample } from '../types/index.js';
+import { parseProblemRef } from './problem.js';
+import { renderTemplate, buildTemplateVariables, getDefaultTemplateContent } from './template.js';
+import { detectCheckerMode } from './checker.js';
+
+// 题目目录中的元数据文件名
+export const WORKSPACE_META_FILE = '.cf-problem.json';
+
+// 已加载的题目工作区
+export interface ProblemWorkspace {
+  dir: string;
+  meta: ProblemWorkspaceMeta;
+}
+
+/**
+ * 获取源文件名，Java 需要与 public class 名称一致
+ */
+export function getSourceFileName(extension: string): string {
+  return extension === 'java' ? 'Main.java' : `main.${extension}`;
+}
+
+/**
+ * 将样例写入题目目录（in1.txt/ans1.txt, in2.txt/ans2.txt, ...）
+ */
+export function writeSamples(dir: string, samples: Sample[]): void {
+  samples.forEach((sample, i) => {
+    fs.writeFileSync(path.join(dir, `in${i + 1}.txt`), sample.input + '\n', 'utf-8');
+    fs.writeFileSync(path.join(dir, `ans${i + 1}.txt`), sample.output + '\n', 'utf-8');
+  });
+}
+
+/**
+ * 以下一个未使用的编号追加一组测试数据，如对拍找到的反例
+ * @returns 新测试数据的编号
+ */
+export function appendSample(dir: string, sample: Sample): number {
+  let n = 1;
+  while (fs.existsSync(path.join(dir, `in${n}.txt`)) || fs.existsSync(path.join(dir, `ans${n}.txt`))) {
+    n++;
+  }
+  fs.writeFileSync(path.join(dir, `in${n}.txt`), sample.input.trimEnd() + '\n', 'utf-8');
+  fs.writeFileSync(path.join(dir, `ans${n}.txt`), sample.output.trimEnd() + '\n', 'utf-8');
+  return n;
+}
+
+/**
+ * 创建题目工作区：样例文件、Markdown题面、源文件和元数据
+ * 源文件由模板生成并替换占位符，已存在的源文件不会被覆盖
+ * @param dir 题目目录
+ * @param problem 题目（训练赛和小组比赛的信息会写入元数据）
+ * @param statement 题面
+ * @param markdown Markdown格式的题面
+ * @param extension 源文件扩展名
+ * @param url 题目地址
+ * @param template 模板内容，缺省时使用该语言的默认模板
+ */
+export function createProblemWorkspace(
+  dir: string,
+  problem: ProblemRef,
+  statement: ProblemStatement,
+  markdown: string,
+  extension: string,
+  url: string,
+  template: string = getDefaultTemplateContent(extension)
+): ProblemWorkspace {
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  // 交互题的样例是交互过程，不能作为交互器的输入，由用户自行编写 inN.txt
+  if (!statement.interactive) {
+    writeSamples(dir, statement.samples);
+  }
+  fs.writeFileSync(path.join(dir, 'statement.md'), markdown, 'utf-8');
+
+  const sourceFile = getSourceFileName(extension);
+  const meta: ProblemWorkspaceMeta = {
+    contestId: problem.contestId,
+    index: problem.index,
+    gym: problem.gym,
+    groupId: problem.groupId,
+    problemset: problem.problemset,
+    problemsetName: problem.problemsetName,
+    name: statement.name,
+    timeLimit: statement.timeLimit,
+    memoryLimit: statement.memoryLimit,
+    url,
+    sourceFile,
+    checker: detectCheckerMode(statement.outputFormat),
+    interactive: statement.interactive || undefined
+  };
+
+  const sourcePath = path.join(dir, sourceFile);
+  if (!fs.existsSync(sourcePath)) {
+    fs.writeFileSync(sourcePath, renderTemplate(template, buildTemplateVariables(meta)), 'utf-8');
+  }
+
+  fs.writeFileSync(path.join(dir, WORKSPACE_META_FILE), JSON.stringify(meta, null, 2), 'utf-8');
+
+  return { dir, meta };
+}
+
+/**
+ * 从指定目录向上查找题目工作区
+ * @returns 找到的工作区，不在工作区中时返回null
+ */
+export function findProblemWorkspace(startDir: string = process.cwd()): ProblemWorkspace | null {
+  let dir = path.resolve(startDir);
+
+  while (true) {
+    const metaPath = path.join(dir, WORKSPACE_META_FILE);
+    if (fs.existsSync(metaPath)) {
+      try {
+        const meta: ProblemWorkspaceMeta = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
+        return { dir, meta };
+      } catch (error) {
+        return null;
+      }
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * 读取题目目录中的样例，按编号排序
+ */
+export function loadWorkspaceSamples(dir: string): Sample[] {
+  const numbers = fs.readdirSync(dir)
+    .map(file => file.match(/^in(\d+)\.txt$/))
+    .filter((match): match is RegExpMatchArray => !!match)
+    .map(match => parseInt(match[1]))
+    .filter(n => fs.existsSync(path.join(dir, `ans${n}.txt`)))
+    .sort((a, b) => a - b);
+
+  return numbers.map(n => ({
+    input: fs.readFileSync(path.join(dir, `in${n}.txt`), 'utf-8').trimEnd(),
+    output: fs.readFileSync(path.join(dir, `ans${n}.txt`), 'utf-8').trimEnd()
+  }));
+}
+
+/**
+ * 读取题目目录中交互器的测试输入 inN.txt，对应的 ansN.txt 可省略，按编号排序
+ */
+export function loadInteractorTests(dir: string): Sample[] {
+  const numbers = fs.readdirSync(dir)
+    .map(file => file.match(/^in(\d+)\.txt$/))
+    .filter((match): match is RegExpMatchArray => !!match)
+    .map(match => parseInt(match[1]))
+    .sort((a, b) => a - b);
+
+  return numbers.map(n => {
+    const answerPath = path.join(dir, `ans${n}.txt`);
+    return {
+      input: fs.readFileSync(path.join(dir, `in${n}.txt`), 'utf-8').trimEnd(),
+      output: fs.existsSync(answerPath) ? fs.readFileSync(answerPath, 'utf-8').trimEnd() : ''
+    };
+  });
+}
+
+/**
+ * 解析命令中的题目和源文件参数
+ * 参数缺省时从当前所在的题目工作区读取；只给出一个已存在的文件时将其视为源文件
+ * @throws 无法确定题目或源文件时抛出错误
+ */
+export function resolveProblemTarget(problemArg?: string, fileArg?: string): ProblemRef & {
+  file: string;
+  workspace: ProblemWorkspace | null;
+} {
+  const workspace = findProblemWorkspace();
+
+  // 只提供了源文件，例如在工作区中执行 cf test main.cpp（已存在的文件优先于题目，如 sol/a 不会被当作题库题目）
+  if (problemArg && !fileArg && fs.existsSync(problemArg) && fs.statSync(problemArg).isFile()) {
+    fileArg = problemArg;
+    problemArg = undefined;
+  }
+
+  let problem: ProblemRef;
+
+  if (problemArg) {
+    const parsed = parseProblemRef(problemArg);
+    if (!parsed) {
+      throw new Error('题目格式不正确，例如：1000A、1000/A、gym:102345/B 或 group:abc/contest/123/C');
+    }
+    problem = parsed;
+  } else if (workspace) {
+    const { contestId, index, gym, groupId, problemset, problemsetName } = workspace.meta;
+    problem = { contestId, index, gym, groupId, problemset, problemsetName };
+  } else {
+    throw new Error('未指定题目，且当前目录不是题目工作区（可使用 cf parse 创建）');
+  }
+
+  let file = fileArg;
+  if (!file) {
+    if (!workspace) {
+      throw new Error('未指定代码文件');
+    }
+    file = path.join(workspace.dir, workspace.meta.sourceFile);
+  }
+
+  // 仅当工作区与目标题目一致时才返回工作区
+  const sameProblem = workspace && workspace.meta.contestId === problem.contestId && workspace.meta.index === problem.index &&
+    workspace.meta.problemsetName === problem.problemsetName;
+  return { ...problem, file, workspace: sameProblem ? workspace : null };
+}
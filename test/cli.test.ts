@@ -0,0 +1,168 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import puppeteer from 'puppeteer';
+import { startMockEnvironment, runCli, parseJsonOutput, MockEnvironment } from './helpers.js';
+
+/**
+ * 本机是否安装了 puppeteer 使用的 Chrome，题面和提交需要浏览器
+ */
+function hasBrowser(): boolean {
+  try {
+    return existsSync(puppeteer.executablePath());
+  } catch (error) {
+    return false;
+  }
+}
+
+describe('命令行', () => {
+  let mock: MockEnvironment;
+  let workDir: string;
+
+  before(async () => {
+    mock = await startMockEnvironment();
+    // puppeteer 的浏览器安装在真实的 HOME 下
+    mock.env.PUPPETEER_CACHE_DIR = process.env.PUPPETEER_CACHE_DIR || join(process.env.HOME || '', '.cache', 'puppeteer');
+    workDir = join(mock.home, 'work');
+    mkdirSync(workDir);
+    writeFileSync(join(workDir, 'main.cpp'), 'int main() { return 0; }\n');
+    writeFileSync(join(workDir, 'main.txt'), 'hello\n');
+  });
+
+  after(async () => {
+    await mock.close();
+  });
+
+  describe('contest', () => {
+    it('list 返回模拟的竞赛列表', async () => {
+      const { code, stdout } = await runCli(['contest', 'list', '--format', 'json'], mock.env);
+      assert.equal(code, 0);
+      const contests = parseJsonOutput(stdout);
+      assert.deepEqual(
+        contests.map((c: any) => [c.id, c.phase]),
+        [[2001, 'BEFORE'], [2000, 'FINISHED'], [1999, 'FINISHED']]
+      );
+    });
+
+    it('standings 按名次显示选手', async () => {
+      const { code, stdout } = await runCli(['contest', 'standings', '2000'], mock.env);
+      assert.equal(code, 0);
+      assert.match(stdout, /竞赛: Mock Round 1 \(Div\. 2\)/);
+      assert.match(stdout, /^1\s+tourist\s+2940/m);
+      assert.match(stdout, /^3\s+newbie_coder\s+470/m);
+    });
+
+    it('status 按用户筛选提交记录', async () => {
+      const { code, stdout } = await runCli(['contest', 'status', '2000', '--handle', 'tourist', '--format', 'json'], mock.env);
+      assert.equal(code, 0);
+      const submissions = parseJsonOutput(stdout);
+      assert.deepEqual(submissions.map((s: any) => s.id), [900002, 900001, 900000]);
+      assert.ok(submissions.every((s: any) => s.author.members[0].handle === 'tourist'));
+    });
+
+    it('status 只显示 --count 条并提示还有更多', async () => {
+      const { code, stdout } = await runCli(['contest', 'status', '2000', '--verdict', 'OK', '--count', '1'], mock.env);
+      assert.equal(code, 0);
+      assert.match(stdout, /显示最新的 1 条提交，其中通过 1 条（可用 --count 显示更多）/);
+    });
+
+    it('不存在的竞赛返回错误', async () => {
+      const { code, stderr } = await runCli(['contest', 'problems', '99999'], mock.env);
+      assert.equal(code, 1);
+      assert.match(stderr, /获取竞赛题目失败|not found/);
+    });
+  });
+
+  describe('problem', () => {
+    it('search 按名称查找题目', async () => {
+      const { code, stdout } = await runCli(['problem', 'search', 'Sum'], mock.env);
+      assert.equal(code, 0);
+      assert.match(stdout, /2000\s+A\s+Sum of Two/);
+      assert.match(stdout, /共找到 1 道相关题目/);
+    });
+
+    it('statement 获取题面和样例', { skip: !hasBrowser() && '没有安装 puppeteer 使用的 Chrome' }, async () => {
+      const { code, stdout } = await runCli(['problem', 'statement', '2000A'], mock.env);
+      assert.equal(code, 0);
+      assert.match(stdout, /Sum of Two/);
+    });
+  });
+
+  describe('user', () => {
+    it('info 显示用户信息', async () => {
+      const { code, stdout } = await runCli(['user', 'info', 'tourist'], mock.env);
+      assert.equal(code, 0);
+      assert.match(stdout, /Current Rating: 3800 \(legendary grandmaster\)/);
+      assert.match(stdout, /Max Rating: 4000/);
+    });
+
+    it('info 查询不存在的用户时失败', async () => {
+      const { code, stderr } = await runCli(['user', 'info', 'nobody_xyz'], mock.env);
+      assert.equal(code, 1);
+      assert.match(stderr, /User with handle nobody_xyz not found/);
+    });
+
+    it('submissions 显示用户的提交记录', async () => {
+      const { code, stdout } = await runCli(['user', 'submissions', 'tourist'], mock.env);
+      assert.equal(code, 0);
+      assert.match(stdout, /900002\s+C\. Yes or No/);
+      assert.match(stdout, /共找到 3 条提交记录/);
+    });
+  });
+
+  describe('test', () => {
+    it('--time-limit 不是正整数时报错', async () => {
+      for (const value of ['abc', '0', '-5', '1.5']) {
+        const { code, stderr } = await runCli(['test', '2000A', 'main.cpp', `--time-limit=${value}`], mock.env, workDir);
+        assert.equal(code, 1);
+        assert.match(stderr, /时间限制必须是正整数/, value);
+      }
+    });
+  });
+
+  describe('template', () => {
+    it('add 把 .cc 等扩展名别名保存为 cpp 模板', async () => {
+      writeFileSync(join(workDir, 'tpl.cc'), '#include <cstdio>\n');
+      const added = await runCli(['template', 'add', 'cc-default', 'tpl.cc', '--default'], mock.env, workDir);
+      assert.equal(added.code, 0, added.stderr);
+      assert.match(added.stdout, /模板 'cc-default' \(cpp\) 已保存，并设为默认模板/);
+
+      const { stdout } = await runCli(['template', 'list'], mock.env, workDir);
+      assert.match(stdout, /^cc-default\s+cpp\s+1\s+✓/m);
+    });
+  });
+
+  describe('submit', () => {
+    it('未登录时拒绝提交', async () => {
+      const { code, stdout, stderr } = await runCli(['submit', '2000A', 'main.cpp'], mock.env, workDir);
+      assert.equal(code, 1);
+      assert.match(stdout + stderr, /请先登录再提交代码/);
+    });
+
+    it('题库中的题目不能从命令行提交', async () => {
+      const { code, stderr } = await runCli(['submit', 'acmsguru/100', 'main.cpp'], mock.env, workDir);
+      assert.equal(code, 1);
+      assert.match(stderr, /题库 acmsguru 中的题目不支持从命令行提交/);
+    });
+
+    it('无法识别语言时提示使用 --language', async () => {
+      const { code, stderr } = await runCli(['submit', '2000A', 'main.txt'], mock.env, workDir);
+      assert.equal(code, 1);
+      assert.match(stderr, /无法自动检测文件语言/);
+    });
+
+    it('登录后提交并等待判题结果', { skip: !hasBrowser() && '没有安装 puppeteer 使用的 Chrome' }, async () => {
+      // 模拟服务器以 JSESSIONID=mock-<handle> 识别登录用户
+      mkdirSync(join(mock.home, '.cf-script'), { recursive: true });
+      writeFileSync(join(mock.home, '.cf-script', 'cookies.json'), JSON.stringify(['JSESSIONID=mock-newbie_coder']));
+      mkdirSync(join(mock.home, '.codeforces-api-tool'), { recursive: true });
+      writeFileSync(join(mock.home, '.codeforces-api-tool', 'config.json'), JSON.stringify({ handle: 'newbie_coder' }));
+
+      const { code, stdout } = await runCli(['submit', '2000A', 'main.cpp'], mock.env, workDir);
+      assert.equal(code, 0);
+      assert.match(stdout, /提交成功/);
+      assert.match(stdout, /判题结果: /);
+    });
+  });
+});
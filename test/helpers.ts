@@ -0,0 +1,145 @@
+/**
+ * 测试辅助函数：在空闲端口启动模拟服务器，在子进程中运行命令行工具和 Web 服务
+ */
+import { spawn, ChildProcess } from 'child_process';
+import { mkdtempSync, rmSync } from 'fs';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { createMockServer } from '../src/mock/server.js';
+
+const ROOT_DIR = resolve(fileURLToPath(import.meta.url), '../..');
+const CLI_ENTRY = join(ROOT_DIR, 'src/cli/index.ts');
+const SERVER_ENTRY = join(ROOT_DIR, 'src/server/index.ts');
+// 按绝对路径加载 tsx，工作目录不在仓库中时也能运行
+const TSX_LOADER = import.meta.resolve('tsx');
+
+// 子进程的最长运行时间（毫秒）
+const PROCESS_TIMEOUT = 60000;
+
+export interface MockEnvironment {
+  siteUrl: string; // 模拟服务器地址
+  home: string; // 临时 HOME 目录，配置、Cookie 和缓存都写在这里
+  env: NodeJS.ProcessEnv; // 子进程使用的环境变量
+  close(): Promise<void>;
+}
+
+export interface CliResult {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * 在空闲端口启动模拟服务器，并准备连接它的环境变量（CF_API_URL、CF_SITE_URL 和临时 HOME）
+ */
+export async function startMockEnvironment(): Promise<MockEnvironment> {
+  const server = await new Promise<Server>(done => {
+    const listening = createMockServer().listen(0, '127.0.0.1', () => done(listening));
+  });
+  const { port } = server.address() as AddressInfo;
+  const siteUrl = `http://127.0.0.1:${port}`;
+  const home = mkdtempSync(join(tmpdir(), 'cf-test-'));
+
+  return {
+    siteUrl,
+    home,
+    env: { ...process.env, HOME: home, CF_API_URL: `${siteUrl}/api`, CF_SITE_URL: siteUrl },
+    close: async () => {
+      server.closeAllConnections();
+      await new Promise(done => server.close(done));
+      rmSync(home, { recursive: true, force: true });
+    }
+  };
+}
+
+/**
+ * 用 tsx 运行 TypeScript 入口文件
+ */
+function spawnEntry(entry: string, args: string[], env: NodeJS.ProcessEnv, cwd: string = ROOT_DIR): ChildProcess {
+  return spawn(process.execPath, ['--import', TSX_LOADER, entry, ...args], { cwd, env, stdio: ['ignore', 'pipe', 'pipe'] });
+}
+
+/**
+ * 运行命令行工具，等待其退出
+ * @param args 命令参数，如 ['contest', 'list']
+ * @param env 环境变量，通常为 MockEnvironment.env
+ * @param cwd 工作目录
+ */
+export function runCli(args: string[], env: NodeJS.ProcessEnv, cwd?: string): Promise<CliResult> {
+  return new Promise((done, fail) => {
+    const child = spawnEntry(CLI_ENTRY, args, env, cwd);
+    let stdout = '';
+    let stderr = '';
+    child.stdout!.on('data', chunk => stdout += chunk);
+    child.stderr!.on('data', chunk => stderr += chunk);
+
+    const timer = setTimeout(() => {
+      child.kill();
+      fail(new Error(`cf ${args.join(' ')} 超时\n${stdout}\n${stderr}`));
+    }, PROCESS_TIMEOUT);
+    child.on('error', fail);
+    child.on('close', code => {
+      clearTimeout(timer);
+      done({ code, stdout, stderr });
+    });
+  });
+}
+
+/**
+ * 解析 --format json 的输出，忽略前后的提示信息
+ */
+export function parseJsonOutput(stdout: string): any {
+  return JSON.parse(stdout.slice(stdout.indexOf('['), stdout.lastIndexOf(']') + 1));
+}
+
+/**
+ * 获取一个空闲端口
+ */
+async function getFreePort(): Promise<number> {
+  const server = createServer();
+  await new Promise<void>(done => server.listen(0, '127.0.0.1', done));
+  const { port } = server.address() as AddressInfo;
+  await new Promise(done => server.close(done));
+  return port;
+}
+
+/**
+ * 在子进程中启动 Web 服务（src/server），等待健康检查通过
+ * @returns 服务地址和停止服务的函数
+ */
+export async function startApiServer(env: NodeJS.ProcessEnv): Promise<{ url: string; stop(): Promise<void> }> {
+  const port = await getFreePort();
+  const child = spawnEntry(SERVER_ENTRY, [], { ...env, PORT: String(port) });
+  let output = '';
+  child.stdout!.on('data', chunk => output += chunk);
+  child.stderr!.on('data', chunk => output += chunk);
+
+  const stop = async () => {
+    if (child.exitCode === null && child.signalCode === null) {
+      const exited = new Promise(done => child.once('exit', done));
+      child.kill();
+      await exited;
+    }
+  };
+
+  const url = `http://127.0.0.1:${port}`;
+  const deadline = Date.now() + PROCESS_TIMEOUT;
+  while (Date.now() < deadline) {
+    if (child.exitCode !== null) {
+      throw new Error(`Web 服务启动失败:\n${output}`);
+    }
+    try {
+      if ((await fetch(`${url}/health`)).ok) {
+        return { url, stop };
+      }
+    } catch (error) {
+      // 服务还没开始监听
+    }
+    await new Promise(done => setTimeout(done, 200));
+  }
+  await stop();
+  throw new Error(`Web 服务启动超时:\n${output}`);
+}
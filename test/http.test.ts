@@ -0,0 +1,128 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import axios from 'axios';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createMockServer } from '../src/mock/server.js';
+
+// 记录收到的请求，并设置一个 Cookie
+const received: IncomingMessage[] = [];
+const server: Server = createServer((req, res) => {
+  received.push(req);
+  res.setHeader('Set-Cookie', 'tracker=1; Path=/');
+  res.end('ok');
+});
+await new Promise<void>(done => server.listen(0, done));
+const { port } = server.address() as AddressInfo;
+
+// 同一个服务器：127.0.0.1 作为 Codeforces 网站，localhost 作为其他网站（如图片所在的主机）
+const siteUrl = `http://127.0.0.1:${port}`;
+const otherUrl = `http://localhost:${port}`;
+
+// 配置和 Cookie 在导入时读取，先切换到临时 HOME
+const home = mkdtempSync(join(tmpdir(), 'cf-test-'));
+const cookieFile = join(home, '.cf-script', 'cookies.json');
+mkdirSync(join(home, '.cf-script'));
+writeFileSync(cookieFile, JSON.stringify(['JSESSIONID=secret-session']));
+process.env.HOME = home;
+process.env.CF_API_URL = `${siteUrl}/api`;
+process.env.CF_SITE_URL = siteUrl;
+const { HttpClient } = await import('../src/utils/http.js');
+const { getConfig } = await import('../src/config/index.js');
+
+describe('HttpClient', () => {
+  let client: InstanceType<typeof HttpClient>;
+
+  before(() => {
+    client = new HttpClient();
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise(done => server.close(done));
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  describe('sendWithRetry', () => {
+    let mockServer: Server;
+    let apiUrl: string;
+    let calls: number;
+
+    /**
+     * 通过 sendWithRetry 调用模拟服务器的 API，并记录实际发送的次数
+     */
+    function send(method: string, params?: any): Promise<any> {
+      return (client as any).sendWithRetry((client as any).apiLimiter, () => {
+        calls++;
+        return axios.get(`${apiUrl}/${method}`, { params });
+      });
+    }
+
+    before(async () => {
+      // 每个 API 方法的前2次调用返回 503
+      process.env.MOCK_UNAVAILABLE = '2';
+      mockServer = await new Promise<Server>(done => {
+        const listening = createMockServer().listen(0, '127.0.0.1', () => done(listening));
+      });
+      delete process.env.MOCK_UNAVAILABLE;
+      apiUrl = `http://127.0.0.1:${(mockServer.address() as AddressInfo).port}/api`;
+      getConfig().api.retryDelay = 10;
+    });
+
+    after(async () => {
+      mockServer.closeAllConnections();
+      await new Promise(done => mockServer.close(done));
+    });
+
+    it('503 后重试成功', async () => {
+      calls = 0;
+      const response = await send('user.info', { handles: 'tourist' });
+      assert.equal(response.data.status, 'OK');
+      assert.equal(response.data.result[0].handle, 'tourist');
+      assert.equal(calls, 3);
+    });
+
+    it('用户不存在等 400 错误不重试', async () => {
+      calls = 0;
+      await assert.rejects(send('user.info', { handles: 'nobody_xyz' }), (error: any) => {
+        assert.equal(error.response.status, 400);
+        assert.match(error.message, /User with handle nobody_xyz not found/);
+        assert.equal(error.retries, 0);
+        return true;
+      });
+      assert.equal(calls, 1);
+    });
+
+    it('重试次数用完后抛出最后的错误并记录重试次数', async () => {
+      getConfig().api.retryAttempts = 1;
+      calls = 0;
+      await assert.rejects(send('contest.list'), (error: any) => {
+        assert.equal(error.response.status, 503);
+        assert.equal(error.message, 'Codeforces is temporarily unavailable（已重试 1 次）');
+        assert.equal(error.retries, 1);
+        return true;
+      });
+      assert.equal(calls, 2);
+    });
+  });
+
+  describe('Cookie', () => {
+    it('其他网站的请求不带 Cookie，也不保存它的 Set-Cookie', async () => {
+      received.length = 0;
+      await client.request({ method: 'GET', url: `${otherUrl}/image.png`, responseType: 'arraybuffer' });
+      assert.equal(received[0].headers.cookie, undefined);
+      assert.deepEqual(client.getCookies(), ['JSESSIONID=secret-session']);
+      assert.deepEqual(JSON.parse(readFileSync(cookieFile, 'utf-8')), ['JSESSIONID=secret-session']);
+    });
+
+    it('Codeforces 网站的请求带 Cookie 并保存新的 Cookie', async () => {
+      received.length = 0;
+      await client.request({ method: 'GET', url: `${siteUrl}/` });
+      assert.equal(received[0].headers.cookie, 'JSESSIONID=secret-session');
+      assert.ok(client.getCookies().some(cookie => cookie.startsWith('tracker=1')));
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Clock, RateLimiter, RateLimitOptions } from '../src/utils/rate-limiter.js';
+
+/**
+ * 假时钟：sleep 立即把时间推进 ms 毫秒
+ * 限流器按顺序放行，同一时间只有一个请求在等待，因此推进的时间就是它需要等待的时间
+ */
+class FakeClock implements Clock {
+  time = 0;
+
+  now(): number {
+    return this.time;
+  }
+
+  async sleep(ms: number): Promise<void> {
+    this.time += ms;
+  }
+
+  advance(ms: number): void {
+    this.time += ms;
+  }
+}
+
+/**
+ * 依次发出 count 个请求，返回每个请求被放行的时间
+ */
+async function acquireTimes(limiter: RateLimiter, clock: FakeClock, count: number): Promise<number[]> {
+  const times: number[] = [];
+  for (let i = 0; i < count; i++) {
+    await limiter.acquire();
+    times.push(clock.now());
+  }
+  return times;
+}
+
+function createLimiter(options: RateLimitOptions): { limiter: RateLimiter; clock: FakeClock } {
+  const clock = new FakeClock();
+  return { limiter: new RateLimiter(() => options, clock), clock };
+}
+
+describe('RateLimiter', () => {
+  it('令牌用完后按 requests/window 的速率补充', async () => {
+    const { limiter, clock } = createLimiter({ requests: 2, window: 1000 });
+    assert.deepEqual(await acquireTimes(limiter, clock, 5), [0, 0, 500, 1000, 1500]);
+  });
+
+  it('空闲期间补充令牌', async () => {
+    const { limiter, clock } = createLimiter({ requests: 5, window: 1000 });
+    assert.deepEqual(await acquireTimes(limiter, clock, 5), [0, 0, 0, 0, 0]);
+
+    // 400ms 补充2个令牌，第三个请求还需等待200ms
+    clock.advance(400);
+    assert.deepEqual(await acquireTimes(limiter, clock, 3), [400, 400, 600]);
+  });
+
+  it('空闲再久也最多积攒 burstLimit 个令牌', async () => {
+    const { limiter, clock } = createLimiter({ requests: 2, window: 1000, burstLimit: 3 });
+    assert.deepEqual(await acquireTimes(limiter, clock, 4), [0, 0, 0, 500]);
+
+    clock.advance(10000);
+    assert.deepEqual(await acquireTimes(limiter, clock, 4), [10500, 10500, 10500, 11000]);
+  });
+
+  it('相邻请求至少间隔 requestInterval', async () => {
+    const { limiter, clock } = createLimiter({ requests: 10, window: 1000, requestInterval: 300 });
+    assert.deepEqual(await acquireTimes(limiter, clock, 4), [0, 300, 600, 900]);
+  });
+
+  it('修改配置后立即生效', async () => {
+    const options: RateLimitOptions = { requests: 1, window: 1000 };
+    const clock = new FakeClock();
+    const limiter = new RateLimiter(() => options, clock);
+    assert.deepEqual(await acquireTimes(limiter, clock, 2), [0, 1000]);
+
+    options.requests = 4;
+    assert.deepEqual(await acquireTimes(limiter, clock, 2), [1250, 1500]);
+  });
+
+  describe('backoff', () => {
+    it('连续触发时暂停时间翻倍，最长60秒', () => {
+      const { limiter, clock } = createLimiter({ requests: 5, window: 1000 });
+      const delays: number[] = [];
+      for (let i = 0; i < 7; i++) {
+        const delay = limiter.backoff();
+        delays.push(delay);
+        clock.advance(delay);
+      }
+      assert.deepEqual(delays, [2000, 4000, 8000, 16000, 32000, 60000, 60000]);
+    });
+
+    it('暂停中再次触发时不延长', () => {
+      const { limiter, clock } = createLimiter({ requests: 5, window: 1000 });
+      assert.equal(limiter.backoff(), 2000);
+      clock.advance(500);
+      assert.equal(limiter.backoff(), 1500);
+      clock.advance(1500);
+      assert.equal(limiter.backoff(), 4000);
+    });
+
+    it('recordSuccess 后重新从2秒开始', () => {
+      const { limiter, clock } = createLimiter({ requests: 5, window: 1000 });
+      clock.advance(limiter.backoff());
+      clock.advance(limiter.backoff());
+      limiter.recordSuccess();
+      assert.equal(limiter.backoff(), 2000);
+    });
+
+    it('暂停期间的请求等到暂停结束，并清空令牌', async () => {
+      const { limiter, clock } = createLimiter({ requests: 2, window: 1000 });
+      await limiter.acquire();
+      limiter.backoff();
+      assert.deepEqual(await acquireTimes(limiter, clock, 3), [2500, 3000, 3500]);
+    });
+  });
+
+  it('按调用 acquire 的顺序放行', async () => {
+    const { limiter } = createLimiter({ requests: 1, window: 1000, requestInterval: 100 });
+    const order: number[] = [];
+    await Promise.all([0, 1, 2, 3, 4].map(id => limiter.acquire().then(() => order.push(id))));
+    assert.deepEqual(order, [0, 1, 2, 3, 4]);
+  });
+
+  it('前一个请求失败不影响排队', async () => {
+    const { limiter, clock } = createLimiter({ requests: 1, window: 1000 });
+    const failed = limiter.schedule(async () => {
+      throw new Error('请求失败');
+    });
+    const next = limiter.schedule(async () => clock.now());
+    await assert.rejects(failed, /请求失败/);
+    assert.equal(await next, 1000);
+  });
+});
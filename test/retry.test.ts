@@ -0,0 +1,137 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyError, getBackoffDelay, RetryBudget, finalizeRetryError, isCallLimitExceeded, isTransientFailure } from '../src/utils/retry.js';
+
+/**
+ * 构造 axios 风格的错误
+ */
+function httpError(status: number, data?: any): any {
+  return Object.assign(new Error(`Request failed with status code ${status}`), { response: { status, data } });
+}
+
+describe('classifyError', () => {
+  it('网络错误和超时可以重试', () => {
+    for (const code of ['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EAI_AGAIN', 'ERR_NETWORK']) {
+      assert.equal(classifyError(Object.assign(new Error(code), { code })), 'network', code);
+    }
+  });
+
+  it('没有响应的其他错误不重试', () => {
+    assert.equal(classifyError(new Error('Invalid URL')), 'permanent');
+    assert.equal(classifyError(Object.assign(new Error('offline'), { code: 'OFFLINE' })), 'permanent');
+    assert.equal(classifyError(undefined), 'permanent');
+  });
+
+  it('429 和 Call limit exceeded 为限流', () => {
+    assert.equal(classifyError(httpError(429)), 'rate-limit');
+    assert.equal(classifyError(httpError(503, { status: 'FAILED', comment: 'Call limit exceeded' })), 'rate-limit');
+    assert.equal(classifyError(httpError(400, { status: 'FAILED', comment: 'Call limit exceeded' })), 'rate-limit');
+  });
+
+  it('服务器 5xx 可以重试', () => {
+    assert.equal(classifyError(httpError(500)), 'network');
+    assert.equal(classifyError(httpError(502, '<html>Bad Gateway</html>')), 'network');
+  });
+
+  it('暂时不可用的 FAILED 响应可以重试', () => {
+    assert.equal(classifyError(httpError(400, { status: 'FAILED', comment: 'Codeforces is temporarily unavailable' })), 'network');
+    assert.equal(classifyError(httpError(403, { status: 'FAILED', comment: 'Please try again later' })), 'network');
+  });
+
+  it('参数错误等 4xx 不重试', () => {
+    assert.equal(classifyError(httpError(400, { status: 'FAILED', comment: 'handles: User with handle x not found' })), 'permanent');
+    assert.equal(classifyError(httpError(404)), 'permanent');
+  });
+});
+
+describe('isCallLimitExceeded', () => {
+  it('忽略大小写匹配 FAILED 响应的说明', () => {
+    assert.equal(isCallLimitExceeded({ status: 'FAILED', comment: 'Call limit exceeded' }), true);
+    assert.equal(isCallLimitExceeded({ status: 'FAILED', comment: 'call LIMIT exceeded' }), true);
+    assert.equal(isCallLimitExceeded({ status: 'OK', result: [] }), false);
+    assert.equal(isCallLimitExceeded('Call limit exceeded'), false);
+  });
+});
+
+describe('isTransientFailure', () => {
+  it('只匹配暂时不可用的 FAILED 响应', () => {
+    assert.equal(isTransientFailure({ status: 'FAILED', comment: 'Service Unavailable' }), true);
+    assert.equal(isTransientFailure({ status: 'FAILED', comment: 'Internal Server Error' }), true);
+    assert.equal(isTransientFailure({ status: 'FAILED', comment: 'handles: User with handle x not found' }), false);
+    assert.equal(isTransientFailure('temporarily unavailable'), false);
+  });
+});
+
+describe('getBackoffDelay', () => {
+  it('在上限的一半到上限之间取值，上限按指数增长', () => {
+    assert.equal(getBackoffDelay(0, 1000, () => 0), 500);
+    assert.equal(getBackoffDelay(0, 1000, () => 0.5), 750);
+    assert.equal(getBackoffDelay(0, 1000, () => 0.999999), 1000);
+    assert.equal(getBackoffDelay(1, 1000, () => 0), 1000);
+    assert.equal(getBackoffDelay(3, 1000, () => 0), 4000);
+  });
+
+  it('上限不超过30秒', () => {
+    assert.equal(getBackoffDelay(5, 1000, () => 0), 15000);
+    assert.equal(getBackoffDelay(20, 1000, () => 0), 15000);
+    assert.equal(getBackoffDelay(20, 1000, () => 0.999999), 30000);
+  });
+
+  it('默认使用随机数', () => {
+    for (let i = 0; i < 20; i++) {
+      const delay = getBackoffDelay(2, 1000);
+      assert.ok(delay >= 2000 && delay <= 4000, String(delay));
+    }
+  });
+});
+
+describe('RetryBudget', () => {
+  /**
+   * 连续申请重试直到额度用完，返回成功的次数
+   */
+  function drain(budget: RetryBudget): number {
+    let count = 0;
+    while (budget.withdraw()) {
+      count++;
+    }
+    return count;
+  }
+
+  it('初始有 minRetries 次保底额度', () => {
+    assert.equal(drain(new RetryBudget(0.2, 10)), 10);
+    assert.equal(drain(new RetryBudget()), 10);
+  });
+
+  it('每个请求按比例增加额度', () => {
+    const budget = new RetryBudget(0.2, 10);
+    drain(budget);
+    for (let i = 0; i < 4; i++) {
+      budget.deposit();
+    }
+    assert.equal(budget.withdraw(), false);
+    budget.deposit();
+    assert.equal(drain(budget), 1);
+  });
+
+  it('额度最多积攒 minRetries 的两倍', () => {
+    const budget = new RetryBudget(0.5, 3);
+    for (let i = 0; i < 100; i++) {
+      budget.deposit();
+    }
+    assert.equal(drain(budget), 6);
+  });
+});
+
+describe('finalizeRetryError', () => {
+  it('使用 API 的错误说明并记录重试次数', () => {
+    const error = finalizeRetryError(httpError(400, { status: 'FAILED', comment: 'contestId: Contest with id 1 not found' }), 0);
+    assert.equal(error.message, 'contestId: Contest with id 1 not found');
+    assert.equal(error.retries, 0);
+  });
+
+  it('重试过时在错误信息中注明', () => {
+    const error = finalizeRetryError(Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }), 3);
+    assert.equal(error.message, 'connect ECONNREFUSED（已重试 3 次）');
+    assert.equal(error.retries, 3);
+  });
+});
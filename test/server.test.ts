@@ -0,0 +1,84 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startMockEnvironment, startApiServer, MockEnvironment } from './helpers.js';
+
+describe('Web 服务 /api 接口', () => {
+  let mock: MockEnvironment;
+  let server: { url: string; stop(): Promise<void> };
+
+  /**
+   * 请求接口，返回状态码和 JSON 响应
+   */
+  async function getJson(path: string): Promise<{ status: number; body: any }> {
+    const response = await fetch(`${server.url}${path}`);
+    return { status: response.status, body: await response.json() };
+  }
+
+  before(async () => {
+    mock = await startMockEnvironment();
+    server = await startApiServer(mock.env);
+  });
+
+  after(async () => {
+    await server?.stop();
+    await mock.close();
+  });
+
+  it('GET /health', async () => {
+    const { status, body } = await getJson('/health');
+    assert.equal(status, 200);
+    assert.equal(body.status, 'ok');
+  });
+
+  it('GET /api/contests 返回竞赛列表', async () => {
+    const { status, body } = await getJson('/api/contests');
+    assert.equal(status, 200);
+    assert.equal(body.success, true);
+    assert.deepEqual(body.data.map((c: any) => c.id), [2001, 2000, 1999]);
+  });
+
+  it('GET /api/contests/:id/standings 返回排名', async () => {
+    const { body } = await getJson('/api/contests/2000/standings');
+    assert.equal(body.data.contest.name, 'Mock Round 1 (Div. 2)');
+    assert.deepEqual(body.data.problems.map((p: any) => p.index), ['A', 'B', 'C']);
+    assert.deepEqual(body.data.rows.map((row: any) => row.party.members[0].handle), ['tourist', 'Petr', 'newbie_coder']);
+  });
+
+  it('GET /api/contests/:id/status 按用户和题目筛选', async () => {
+    const { body } = await getJson('/api/contests/2000/status?handle=tourist&problem=B');
+    assert.deepEqual(body.data.map((s: any) => s.id), [900001]);
+  });
+
+  it('GET /api/contests/:id/problems 返回题目', async () => {
+    const { body } = await getJson('/api/contests/2000/problems');
+    assert.deepEqual(body.data.map((p: any) => p.name), ['Sum of Two', 'Average Speed', 'Yes or No']);
+  });
+
+  it('GET /api/problems/search 只返回匹配的题目', async () => {
+    const { body } = await getJson('/api/problems/search?keyword=binary');
+    assert.deepEqual(body.data.map((p: any) => p.name), ['Binary Search Practice']);
+  });
+
+  it('GET /api/problems/search 缺少关键词时返回400', async () => {
+    const { status, body } = await getJson('/api/problems/search');
+    assert.equal(status, 400);
+    assert.equal(body.error, '缺少搜索关键词');
+  });
+
+  it('GET /api/users/:handles 返回用户信息', async () => {
+    const { body } = await getJson('/api/users/tourist;Petr');
+    assert.deepEqual(body.data.map((u: any) => [u.handle, u.rating]), [['tourist', 3800], ['Petr', 2800]]);
+  });
+
+  it('GET /api/users/:handle/rating 返回积分记录', async () => {
+    const { body } = await getJson('/api/users/tourist/rating');
+    assert.equal(body.data.at(-1).newRating, 3800);
+  });
+
+  it('不存在的用户返回 Codeforces 的错误说明', async () => {
+    const { status, body } = await getJson('/api/users/nobody_xyz');
+    assert.equal(status, 400);
+    assert.equal(body.success, false);
+    assert.match(body.details.comment, /User with handle nobody_xyz not found/);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { computeApiSig, signApiRequest } from '../src/utils/signature.js';
+import { startMockEnvironment, runCli, MockEnvironment } from './helpers.js';
+
+// 期望值由独立的 sha512 实现算出
+describe('API 签名', () => {
+  it('computeApiSig 与文档示例一致', () => {
+    const params = { contestId: 566, apiKey: 'xxx', time: 1234567890 };
+    assert.equal(
+      computeApiSig('123456', 'contest.hacks', params, 'yyy'),
+      '1234567f467d1cd837599d2f0dc9fd8beec8fad80ee7d02f0b65ad153a963bca2923de885e11c96cba96beceaba6dd7433d20c0cbb507b7615b3dccfb693b6163ccc94'
+    );
+  });
+
+  it('同名参数按值排序', () => {
+    // 签名原文: 000042/user.info?apiKey=k&handles=a;c&handles=b&time=1700000000#s
+    const expected = '00004259346c85a9fa99a614abc1389a161109c94063b446bc79c35bb24b52f5b31d6854df545d7632b833d9045a8c71fa26e4b3c452ae3ec62b2a4f63a1cf08584efc';
+    assert.equal(computeApiSig('000042', 'user.info', { time: 1700000000, handles: ['b', 'a;c'], apiKey: 'k' }, 's'), expected);
+    assert.equal(computeApiSig('000042', 'user.info', { handles: ['a;c', 'b'], apiKey: 'k', time: 1700000000 }, 's'), expected);
+  });
+
+  it('参数值使用原文，不做 URL 编码', () => {
+    // 签名原文: 999999/blogEntry.view?apiKey=k&q=a b&c&time=1700000000&x=Привет#s
+    const params = { x: 'Привет', q: 'a b&c', apiKey: 'k', time: 1700000000 };
+    assert.equal(
+      computeApiSig('999999', 'blogEntry.view', params, 's'),
+      '9999994b0a236993ee4b47baf2a7f1b023c738eafa0b67a218b47a18927429ccb03ae67cacc48bf0432e8475186c62026dc4a07ee6e4821183a652dec40cb1ffedd4e6'
+    );
+  });
+
+  it('值为 undefined/null 的参数不参与签名', () => {
+    const params = { contestId: 566, apiKey: 'xxx', time: 1234567890 };
+    assert.equal(
+      computeApiSig('123456', 'contest.hacks', { ...params, from: undefined, count: null }, 'yyy'),
+      computeApiSig('123456', 'contest.hacks', params, 'yyy')
+    );
+  });
+
+  it('signApiRequest 添加 apiKey、time 和 apiSig', () => {
+    const params = { contestId: 566 };
+    const signed = signApiRequest('contest.hacks', params, 'xxx', 'yyy', 1234567890, '123456');
+    assert.deepEqual(params, { contestId: 566 });
+    assert.equal(signed.apiKey, 'xxx');
+    assert.equal(signed.time, 1234567890);
+    assert.equal(signed.apiSig, computeApiSig('123456', 'contest.hacks', { contestId: 566, apiKey: 'xxx', time: 1234567890 }, 'yyy'));
+  });
+
+  it('signApiRequest 默认使用当前时间和6位随机前缀', () => {
+    const signed = signApiRequest('user.friends', {}, 'xxx', 'yyy');
+    assert.ok(Math.abs(Number(signed.time) - Date.now() / 1000) < 5);
+    assert.match(String(signed.apiSig), /^\d{6}[0-9a-f]{128}$/);
+  });
+
+  describe('模拟服务器校验签名', () => {
+    let mock: MockEnvironment;
+
+    /**
+     * 写入 API key 配置
+     */
+    function setApiKey(apiSecret: string): void {
+      const configDir = join(mock.home, '.codeforces-api-tool');
+      mkdirSync(configDir, { recursive: true });
+      writeFileSync(join(configDir, 'config.json'), JSON.stringify({ api: { apiKey: 'mock-key', apiSecret } }));
+    }
+
+    before(async () => {
+      mock = await startMockEnvironment();
+    });
+
+    after(async () => {
+      await mock.close();
+    });
+
+    it('需要 URL 编码的参数（handles=tourist;newbie_coder）签名正确', async () => {
+      setApiKey('mock-secret');
+      const { code, stdout, stderr } = await runCli(['user', 'info', 'tourist,newbie_coder'], mock.env);
+      assert.equal(code, 0, stderr);
+      assert.match(stdout, /Handle: newbie_coder/);
+    });
+
+    it('secret 错误时被拒绝', async () => {
+      setApiKey('wrong-secret');
+      const { code, stderr } = await runCli(['user', 'info', 'Petr'], mock.env);
+      assert.equal(code, 1);
+      assert.match(stderr, /apiSig: Incorrect signature/);
+    });
+  });
+});